@@ -3,6 +3,7 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/u
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
 import { Trash2 } from "lucide-react";
 import type { Adjustment } from "@/types/flexi-tracker";
 import { formatMinutes, formatMinutesDecimal } from "@/lib/flexi-tracker-utils";
@@ -28,6 +29,7 @@ export function AdjustmentsPanel({
   const [minutes, setMinutes] = useState("");
   const [note, setNote] = useState("");
   const [isAdding, setIsAdding] = useState(false);
+  const [toil, setToil] = useState(false);
 
   const fmtMinutes = shiftHeld ? formatMinutesDecimal : formatMinutes;
 
@@ -39,19 +41,22 @@ export function AdjustmentsPanel({
       date: new Date().toISOString(),
       minutes: mins,
       note: note.trim() || "Manual adjustment",
+      ...(toil && { toil: true }),
     });
     setMinutes("");
     setNote("");
+    setToil(false);
     setIsAdding(false);
   };
 
-  const total = adjustments.reduce((sum, a) => sum + a.minutes, 0);
+  const total = adjustments.filter((a) => !a.toil).reduce((sum, a) => sum + a.minutes, 0);
+  const toilTotal = adjustments.filter((a) => a.toil).reduce((sum, a) => sum + a.minutes, 0);
 
   return (
     <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
       <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
         <DialogHeader>
-          <DialogTitle>Flexi Adjustments</DialogTitle>
+          <DialogTitle>Adjustments</DialogTitle>
         </DialogHeader>
 
         {!isAdding ? (
@@ -76,6 +81,23 @@ export function AdjustmentsPanel({
                 autoFocus
               />
             </div>
+            <div className="flex gap-2">
+              <Button
+                variant={!toil ? "default" : "outline"}
+                size="sm"
+                onClick={() => setToil(false)}
+              >
+                Flexi
+              </Button>
+              <Button
+                variant={toil ? "default" : "outline"}
+                size="sm"
+                onClick={() => setToil(true)}
+                className={cn(toil && "bg-orange-500 hover:bg-orange-600")}
+              >
+                TOIL
+              </Button>
+            </div>
             <div>
               <label className="block text-xs font-medium text-muted-foreground mb-1">
                 Note (optional)
@@ -111,6 +133,14 @@ export function AdjustmentsPanel({
                     )}
                   >
                     {fmtMinutes(adj.minutes)}
+                    {adj.toil && (
+                      <Badge
+                        variant="secondary"
+                        className="ml-2 bg-orange-100 text-orange-700 dark:bg-orange-950 dark:text-orange-300"
+                      >
+                        TOIL
+                      </Badge>
+                    )}
                   </div>
                   <div className="text-xs text-muted-foreground">{adj.note}</div>
                   <div className="text-xs text-muted-foreground/70">
@@ -147,6 +177,11 @@ export function AdjustmentsPanel({
             >
               {fmtMinutes(total)}
             </span>
+            {toilTotal !== 0 && (
+              <div className="text-xs text-muted-foreground mt-1">
+                TOIL from adjustments: {fmtMinutes(toilTotal)}
+              </div>
+            )}
           </div>
         )}
       </DialogContent>
@@ -0,0 +1,88 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Coffee, Trash2 } from "lucide-react";
+import type { AutoBreakRule, Settings } from "@/types/flexi-tracker";
+
+interface AutoBreakSectionProps {
+  settings: Settings;
+  onChange: (settings: Settings) => void;
+}
+
+export function AutoBreakSection({ settings, onChange }: AutoBreakSectionProps) {
+  const rules = settings.autoBreakRules || [];
+
+  const setRules = (next: AutoBreakRule[]) => onChange({ ...settings, autoBreakRules: next });
+
+  const update = (index: number, patch: Partial<AutoBreakRule>) =>
+    setRules(rules.map((rule, i) => (i === index ? { ...rule, ...patch } : rule)));
+
+  const addRule = () => {
+    const last = rules[rules.length - 1];
+    setRules([
+      ...rules,
+      last
+        ? { afterMinutes: last.afterMinutes + 180, breakMinutes: last.breakMinutes + 15 }
+        : { afterMinutes: 360, breakMinutes: 30 },
+    ]);
+  };
+
+  return (
+    <div className="pt-4 border-t">
+      <label className="text-sm font-medium flex items-center gap-2 mb-3">
+        <Coffee className="h-4 w-4 text-muted-foreground" />
+        Automatic Breaks
+      </label>
+
+      {rules.length > 0 && (
+        <div className="space-y-2 mb-3">
+          {rules.map((rule, index) => (
+            <div key={index} className="flex items-center gap-2 text-sm">
+              <span className="text-muted-foreground">Over</span>
+              <Input
+                type="number"
+                value={rule.afterMinutes / 60}
+                onChange={(e) =>
+                  update(index, {
+                    afterMinutes: Math.round(Math.max(0, parseFloat(e.target.value) || 0) * 60),
+                  })
+                }
+                step="0.5"
+                min="0"
+                max="24"
+                className="w-16 text-center"
+              />
+              <span className="text-muted-foreground">h worked, at least</span>
+              <Input
+                type="number"
+                value={rule.breakMinutes}
+                onChange={(e) =>
+                  update(index, { breakMinutes: Math.max(0, parseInt(e.target.value, 10) || 0) })
+                }
+                min="0"
+                className="w-16 text-center"
+              />
+              <span className="text-muted-foreground">min</span>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setRules(rules.filter((_, i) => i !== index))}
+                className="ml-auto text-muted-foreground hover:text-destructive"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Button variant="outline" size="sm" className="w-full border-dashed" onClick={addRule}>
+        + Break Rule
+      </Button>
+
+      <p className="text-xs text-muted-foreground mt-2">
+        When a day's break is shorter than its rule requires, the difference is deducted as an auto
+        break. Gaps between sessions count as break. Skip it for a single day from the day card.
+      </p>
+    </div>
+  );
+}
@@ -3,22 +3,62 @@ import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Kbd } from "@/components/ui/kbd";
-import { Thermometer, Palmtree, Clock, Check, X, ClipboardCopy } from "lucide-react";
-import type { DayEntry, DayType, MenuItem } from "@/types/flexi-tracker";
+import {
+  Thermometer,
+  Palmtree,
+  Clock,
+  Check,
+  X,
+  ClipboardCopy,
+  Plus,
+  Landmark,
+  CalendarRange,
+  AlertTriangle,
+  Pause,
+  Play,
+} from "lucide-react";
+import type {
+  AutoBreakRule,
+  ComplianceRules,
+  CustomDayType,
+  DayEntry,
+  DayType,
+  MenuItem,
+  PublicHoliday,
+  TimeRounding,
+  WorkSession,
+} from "@/types/flexi-tracker";
 import {
   DAYS,
-  DAY_TYPES,
+  MINUTES_PER_DAY,
   calculateWorked,
   calculateEffectiveWorked,
-  timeToMinutes,
+  calculateLiveWorked,
+  checkDayRules,
+  getAutoBreakMinutes,
+  clockIn,
+  clockOut,
+  entryHasData,
+  formatSessions,
+  getSessionRanges,
+  getSessions,
   formatDuration,
   formatDurationDecimal,
   formatMinutes,
   formatMinutesDecimal,
+  getClockTimeStr,
   getCurrentTimeStr,
+  getDayTypeInfo,
+  getOpenBreak,
+  getOpenSession,
+  pauseTracking,
+  resumeTracking,
+  isFullDayType,
 } from "@/lib/flexi-tracker-utils";
 import { TimeInput } from "./TimeInput";
+import { DayTypeIcon } from "./DayTypeIcon";
 import { BreakInput } from "./BreakInput";
+import { LeaveHoursInput } from "./LeaveHoursInput";
 import { cn } from "@/lib/utils";
 
 interface DayCardProps {
@@ -26,11 +66,22 @@ interface DayCardProps {
   entry: DayEntry;
   expected: number;
   isWorkingDay: boolean;
+  publicHoliday?: PublicHoliday;
+  customDayTypes?: CustomDayType[];
+  rules?: ComplianceRules | null;
+  autoBreakRules?: AutoBreakRule[];
+  rounding?: TimeRounding | null;
   isToday: boolean;
+  isLive: boolean;
+  canClockIn: boolean;
   isDisabled: boolean;
   isSelected: boolean;
   rate: number;
   yesterdayEntry?: DayEntry;
+  // Booked in the leave planner, shown until the day is filled in
+  plannedDayType?: DayType;
+  // Minutes of leave the day uses from an hours-based allowance
+  leaveMinutes?: number;
   shiftHeld: boolean;
   onChange: (entry: DayEntry) => void;
 }
@@ -41,18 +92,14 @@ export interface DayCardRef {
   isPresetsOpen: () => boolean;
 }
 
-const DayTypeIcon = ({ type }: { type: string }) => {
-  switch (type) {
-    case "Thermometer":
-      return <Thermometer className="h-3 w-3" />;
-    case "Palmtree":
-      return <Palmtree className="h-3 w-3" />;
-    case "Clock":
-      return <Clock className="h-3 w-3" />;
-    default:
-      return null;
-  }
-};
+const NextDayMarker = () => (
+  <span
+    className="absolute right-0 top-1/2 -translate-y-1/2 text-[10px] text-muted-foreground pointer-events-none"
+    title="Next day"
+  >
+    +1
+  </span>
+);
 
 export const DayCard = forwardRef<DayCardRef, DayCardProps>(function DayCard(
   {
@@ -60,11 +107,20 @@ export const DayCard = forwardRef<DayCardRef, DayCardProps>(function DayCard(
     entry,
     expected,
     isWorkingDay,
+    publicHoliday,
+    customDayTypes,
+    rules,
+    autoBreakRules,
+    rounding,
     isToday,
+    isLive,
+    canClockIn,
     isDisabled,
     isSelected,
     rate,
     yesterdayEntry,
+    plannedDayType,
+    leaveMinutes,
     shiftHeld,
     onChange,
   },
@@ -74,7 +130,7 @@ export const DayCard = forwardRef<DayCardRef, DayCardProps>(function DayCard(
   const [selectedIndex, setSelectedIndex] = useState(0);
   const [now, setNow] = useState(new Date());
   const dayType: DayType = entry?.dayType || "normal";
-  const typeInfo = DAY_TYPES[dayType];
+  const typeInfo = getDayTypeInfo(dayType, customDayTypes);
 
   // Expose methods to parent via ref
   useImperativeHandle(ref, () => ({
@@ -91,7 +147,9 @@ export const DayCard = forwardRef<DayCardRef, DayCardProps>(function DayCard(
   const fmtDuration = shiftHeld ? formatDurationDecimal : formatDuration;
   const fmtMinutes = shiftHeld ? formatMinutesDecimal : formatMinutes;
 
-  const isLiveTracking = isToday && entry?.startTime && !entry?.endTime && !isDisabled;
+  const sessions = getSessions(entry);
+  // Decided by the parent, since a shift started yesterday can still be running today
+  const isLiveTracking = isLive && !isDisabled;
 
   useEffect(() => {
     if (!isLiveTracking) return;
@@ -99,24 +157,68 @@ export const DayCard = forwardRef<DayCardRef, DayCardProps>(function DayCard(
     return () => clearInterval(interval);
   }, [isLiveTracking]);
 
-  const actualWorked = calculateWorked(entry);
+  const actualWorked = calculateWorked(entry, { autoBreakRules, rounding });
+  const autoBreak = getAutoBreakMinutes(entry, { autoBreakRules, rounding });
+  // What would be deducted without the day's opt-out, so it can be switched back on
+  const skippedAutoBreak = entry?.noAutoBreak
+    ? getAutoBreakMinutes({ ...entry, noAutoBreak: false }, { autoBreakRules, rounding })
+    : 0;
 
   const liveElapsed = useMemo(() => {
-    if (!isLiveTracking || !entry.startTime) return 0;
-    const startMins = timeToMinutes(entry.startTime);
-    const nowMins = now.getHours() * 60 + now.getMinutes();
-    return Math.max(0, nowMins - startMins - (entry.breakMinutes || 0));
-  }, [isLiveTracking, entry?.startTime, entry?.breakMinutes, now]);
+    if (!isLiveTracking) return 0;
+    return calculateLiveWorked(entry, date, now, { autoBreakRules, rounding });
+  }, [isLiveTracking, entry, date, now, autoBreakRules, rounding]);
+
+  const openBreak = isLiveTracking ? getOpenBreak(entry) : undefined;
+  const recordedBreaks = entry?.breaks || [];
 
   const displayWorked = isLiveTracking ? liveElapsed : actualWorked;
   const effectiveWorked = isLiveTracking
     ? Math.floor(liveElapsed * (isWorkingDay ? 1 : rate))
-    : calculateEffectiveWorked(entry, expected, isWorkingDay, rate);
+    : calculateEffectiveWorked(entry, expected, isWorkingDay, rate, {
+        customDayTypes,
+        rules,
+        autoBreakRules,
+        rounding,
+      });
+  const violations = checkDayRules(entry, isWorkingDay, {
+    customDayTypes,
+    rules,
+    autoBreakRules,
+    rounding,
+  });
   const balance = isWorkingDay ? effectiveWorked - expected : effectiveWorked;
-  const hasData = entry?.startTime || entry?.endTime || dayType !== "normal";
+  const hasData = entryHasData(entry);
   const dayNum = date.getDay();
 
-  const canCopyFromYesterday = yesterdayEntry?.startTime && yesterdayEntry?.endTime;
+  const yesterdaySessions = useMemo(
+    () => getSessions(yesterdayEntry).filter((s) => s.start && s.end),
+    [yesterdayEntry]
+  );
+  const canCopyFromYesterday = yesterdaySessions.length > 0;
+
+  const sessionRanges = getSessionRanges(entry);
+
+  // Always render at least one (blank) session so there's somewhere to type
+  const displaySessions: WorkSession[] = sessions.length > 0 ? sessions : [{}];
+  const canAddSession = sessions.length > 0 && sessions.every((s) => s.start && s.end);
+
+  const updateSession = (index: number, patch: WorkSession) => {
+    // Typing an end for the running session clocks out, which ends a paused break too
+    if (patch.end && index === sessions.length - 1 && getOpenSession(entry)) {
+      onChange(clockOut(entry, patch.end));
+      return;
+    }
+    // Drop the session once both of its times have been cleared
+    const next = displaySessions
+      .map((s, i) => (i === index ? { ...s, ...patch } : s))
+      .filter((s, i) => i !== index || s.start || s.end);
+    onChange({ ...entry, sessions: next.length > 0 ? next : undefined });
+  };
+
+  const addSession = () => {
+    onChange({ ...entry, sessions: [...sessions, { start: null, end: null }] });
+  };
 
   const setDayType = useCallback(
     (type: DayType) => {
@@ -136,12 +238,19 @@ export const DayCard = forwardRef<DayCardRef, DayCardProps>(function DayCard(
   const copyFromYesterday = useCallback(() => {
     if (isDisabled || !canCopyFromYesterday) return;
     onChange({
-      startTime: yesterdayEntry!.startTime,
-      endTime: yesterdayEntry!.endTime,
+      sessions: yesterdaySessions.map((s) => ({ start: s.start, end: s.end })),
       breakMinutes: yesterdayEntry!.breakMinutes || 0,
     });
     setShowPresets(false);
-  }, [isDisabled, canCopyFromYesterday, onChange, yesterdayEntry]);
+  }, [isDisabled, canCopyFromYesterday, onChange, yesterdayEntry, yesterdaySessions]);
+
+  // Move the day's overtime out of flexi and into the TOIL bank
+  const canBankToil = hasData && !isLiveTracking && balance > 0;
+  const bankToil = useCallback(() => {
+    if (isDisabled || !canBankToil) return;
+    onChange({ ...entry, toilMinutes: (entry?.toilMinutes || 0) + balance });
+    setShowPresets(false);
+  }, [isDisabled, canBankToil, onChange, entry, balance]);
 
   const menuItems = useMemo((): MenuItem[] => {
     const items: MenuItem[] = [];
@@ -206,8 +315,41 @@ export const DayCard = forwardRef<DayCardRef, DayCardProps>(function DayCard(
         shortcut: "F",
         shiftShortcut: true,
         action: () => setDayType("flexi-half"),
+      },
+      {
+        type: "toil",
+        label: "TOIL Day",
+        icon: "Hourglass",
+        shortcut: "T",
+        action: () => setDayType("toil"),
+      },
+      {
+        type: "toil-half",
+        label: "1/2 TOIL",
+        icon: "Hourglass",
+        shortcut: "T",
+        shiftShortcut: true,
+        action: () => setDayType("toil-half"),
       }
     );
+    customDayTypes?.forEach((custom) => {
+      items.push({
+        type: custom.id,
+        label: custom.label,
+        icon: custom.icon,
+        shortcut: custom.shortcut || undefined,
+        action: () => setDayType(custom.id),
+      });
+    });
+    if (canBankToil) {
+      items.push({
+        type: "bank-toil",
+        label: "Bank overtime as TOIL",
+        icon: "Hourglass",
+        shortcut: "L",
+        action: bankToil,
+      });
+    }
     if (hasData) {
       items.push({
         type: "clear",
@@ -218,7 +360,16 @@ export const DayCard = forwardRef<DayCardRef, DayCardProps>(function DayCard(
       });
     }
     return items;
-  }, [canCopyFromYesterday, hasData, copyFromYesterday, setDayType, clearDay]);
+  }, [
+    canCopyFromYesterday,
+    hasData,
+    copyFromYesterday,
+    setDayType,
+    canBankToil,
+    bankToil,
+    clearDay,
+    customDayTypes,
+  ]);
 
   const togglePresets = useCallback(() => {
     if (!showPresets) {
@@ -283,7 +434,8 @@ export const DayCard = forwardRef<DayCardRef, DayCardProps>(function DayCard(
       case "clear":
         return <X className="h-3 w-3" />;
       default:
-        return null;
+        // Custom day types carry the name of their icon
+        return iconType ? <DayTypeIcon type={iconType} /> : null;
     }
   };
 
@@ -342,6 +494,23 @@ export const DayCard = forwardRef<DayCardRef, DayCardProps>(function DayCard(
         >
           {date.getDate()}
         </div>
+        {publicHoliday && (
+          <div
+            className="mt-1 flex items-center justify-center gap-1 text-xs text-rose-600 dark:text-rose-400"
+            title={publicHoliday.name}
+          >
+            <Landmark className="h-3 w-3 shrink-0" />
+            <span className="truncate">{publicHoliday.name}</span>
+          </div>
+        )}
+        {plannedDayType && !hasData && (
+          <div className="mt-1 flex items-center justify-center gap-1 text-xs text-muted-foreground">
+            <CalendarRange className="h-3 w-3 shrink-0" />
+            <span className="truncate">
+              Planned: {getDayTypeInfo(plannedDayType, customDayTypes).label}
+            </span>
+          </div>
+        )}
       </div>
 
       {/* Preset Button & Dropdown Container */}
@@ -393,7 +562,7 @@ export const DayCard = forwardRef<DayCardRef, DayCardProps>(function DayCard(
                         {item.shortcut && <Kbd>{item.shortcut}</Kbd>}
                       </span>
                       <span className="text-[10px] text-blue-400 pl-5">
-                        {yesterdayEntry.startTime} - {yesterdayEntry.endTime}
+                        {formatSessions(yesterdaySessions)}
                       </span>
                     </>
                   ) : (
@@ -416,26 +585,73 @@ export const DayCard = forwardRef<DayCardRef, DayCardProps>(function DayCard(
       </div>
 
       {/* Time Inputs - dimmed if full day preset */}
-      <div
-        className={cn("space-y-2", ["sick", "holiday", "flexi"].includes(dayType) && "opacity-40")}
-      >
-        <div className="space-y-1">
-          <TimeInput
-            value={entry?.startTime}
-            onChange={(v) => onChange({ ...entry, startTime: v })}
-            placeholder="start"
-          />
-          <TimeInput
-            value={entry?.endTime}
-            onChange={(v) => onChange({ ...entry, endTime: v })}
-            placeholder="end"
-          />
-        </div>
+      <div className={cn("space-y-2", isFullDayType(dayType, customDayTypes) && "opacity-40")}>
+        {displaySessions.map((session, index) => (
+          <div
+            key={index}
+            className={cn("space-y-1", index > 0 && "pt-2 border-t border-dashed border-border/50")}
+          >
+            <div className="relative">
+              <TimeInput
+                value={session.start}
+                onChange={(v) => updateSession(index, { start: v })}
+                placeholder="start"
+              />
+              {(sessionRanges[index]?.start ?? 0) >= MINUTES_PER_DAY && <NextDayMarker />}
+            </div>
+            <div className="relative">
+              <TimeInput
+                value={session.end}
+                onChange={(v) => updateSession(index, { end: v })}
+                placeholder="end"
+              />
+              {(sessionRanges[index]?.end ?? 0) >= MINUTES_PER_DAY && <NextDayMarker />}
+            </div>
+          </div>
+        ))}
+
+        {canAddSession && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={addSession}
+            className="w-full h-6 text-xs text-muted-foreground"
+          >
+            <Plus className="h-3 w-3" />
+            Session
+          </Button>
+        )}
 
         <BreakInput
           value={entry?.breakMinutes || 0}
           onChange={(v) => onChange({ ...entry, breakMinutes: v })}
         />
+        {recordedBreaks.length > 0 && (
+          <div className="text-center text-xs text-muted-foreground">
+            {recordedBreaks.map((b) => `${b.start}–${b.end || "now"}`).join(", ")}
+          </div>
+        )}
+        {autoBreak > 0 && (
+          <div className="flex items-center justify-center gap-1 text-xs text-muted-foreground">
+            <span>+{fmtDuration(autoBreak)} auto break</span>
+            <button
+              onClick={() => onChange({ ...entry, noAutoBreak: true })}
+              className="hover:text-destructive"
+              title="Don't deduct an automatic break today"
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </div>
+        )}
+        {skippedAutoBreak > 0 && (
+          <button
+            onClick={() => onChange({ ...entry, noAutoBreak: undefined })}
+            className="block w-full text-center text-xs text-muted-foreground/70 line-through hover:text-foreground"
+            title="Deduct the automatic break again"
+          >
+            {fmtDuration(skippedAutoBreak)} auto break
+          </button>
+        )}
       </div>
 
       <div className="mt-4 pt-3 border-t border-border/50">
@@ -451,24 +667,48 @@ export const DayCard = forwardRef<DayCardRef, DayCardProps>(function DayCard(
             <div className="flex flex-col items-center gap-1">
               <span className="flex items-center justify-center gap-1">
                 {fmtDuration(displayWorked)}
-                <span className="text-xs text-emerald-500 font-normal">live</span>
+                {openBreak ? (
+                  <span className="text-xs text-amber-500 font-normal">
+                    paused {openBreak.start}
+                  </span>
+                ) : (
+                  <span className="text-xs text-emerald-500 font-normal">live</span>
+                )}
               </span>
-              <Button
-                size="sm"
-                variant="secondary"
-                onClick={() => onChange({ ...entry, endTime: getCurrentTimeStr() })}
-                className="bg-emerald-100 text-emerald-700 hover:bg-emerald-200"
-              >
-                Clock out
-              </Button>
+              <div className="flex items-center gap-1">
+                <Button
+                  size="sm"
+                  variant="secondary"
+                  onClick={() =>
+                    onChange(
+                      openBreak
+                        ? resumeTracking(entry, getCurrentTimeStr())
+                        : pauseTracking(entry, getCurrentTimeStr())
+                    )
+                  }
+                  className="bg-amber-100 text-amber-700 hover:bg-amber-200"
+                  title={openBreak ? "Resume" : "Pause for a break"}
+                >
+                  {openBreak ? <Play className="h-3 w-3" /> : <Pause className="h-3 w-3" />}
+                  {openBreak ? "Resume" : "Pause"}
+                </Button>
+                <Button
+                  size="sm"
+                  variant="secondary"
+                  onClick={() => onChange(clockOut(entry, getClockTimeStr(rounding, "end")))}
+                  className="bg-emerald-100 text-emerald-700 hover:bg-emerald-200"
+                >
+                  Clock out
+                </Button>
+              </div>
             </div>
-          ) : isToday && !entry?.startTime && !isDisabled ? (
+          ) : isToday && canClockIn && !isDisabled ? (
             <div className="flex flex-col items-center gap-1">
-              <span>-</span>
+              <span>{actualWorked > 0 ? fmtDuration(effectiveWorked) : "-"}</span>
               <Button
                 size="sm"
                 variant="secondary"
-                onClick={() => onChange({ ...entry, startTime: getCurrentTimeStr() })}
+                onClick={() => onChange(clockIn(entry, getClockTimeStr(rounding, "start")))}
                 className="bg-blue-100 text-blue-700 hover:bg-blue-200"
               >
                 Clock in
@@ -496,6 +736,46 @@ export const DayCard = forwardRef<DayCardRef, DayCardProps>(function DayCard(
             {hasData || isLiveTracking || balance !== -expected ? fmtMinutes(balance) : "-"}
           </div>
         )}
+        {leaveMinutes !== undefined && (
+          <div className="flex items-center justify-center gap-1 text-sky-600 dark:text-sky-400">
+            <Palmtree className="h-3 w-3" />
+            <LeaveHoursInput
+              value={leaveMinutes}
+              onChange={(v) => onChange({ ...entry, leaveMinutes: v })}
+            />
+            {entry?.leaveMinutes !== undefined && (
+              <button
+                onClick={() => onChange({ ...entry, leaveMinutes: undefined })}
+                className="text-muted-foreground hover:text-destructive"
+                title="Use the hours expected"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            )}
+          </div>
+        )}
+        {!!entry?.toilMinutes && (
+          <div className="flex items-center justify-center gap-1 text-xs text-orange-600 dark:text-orange-400">
+            <DayTypeIcon type="Hourglass" />
+            <span>{fmtDuration(entry.toilMinutes)} to TOIL</span>
+            <button
+              onClick={() => onChange({ ...entry, toilMinutes: undefined })}
+              className="text-muted-foreground hover:text-destructive"
+              title="Return to flexi"
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </div>
+        )}
+        {violations.map((violation) => (
+          <div
+            key={violation.rule}
+            className="mt-1 flex items-start justify-center gap-1 text-center text-xs text-amber-600 dark:text-amber-400"
+          >
+            <AlertTriangle className="h-3 w-3 shrink-0 mt-0.5" />
+            <span>{violation.message}</span>
+          </div>
+        ))}
       </div>
 
       {/* Click outside to close presets */}
@@ -0,0 +1,46 @@
+import {
+  Baby,
+  BookOpen,
+  Briefcase,
+  Car,
+  Clock,
+  GraduationCap,
+  Heart,
+  Hourglass,
+  House,
+  Laptop,
+  Palmtree,
+  Plane,
+  Scale,
+  Star,
+  Stethoscope,
+  Thermometer,
+  Users,
+  type LucideIcon,
+} from "lucide-react";
+import { cn } from "@/lib/utils";
+
+const DAY_TYPE_ICONS: Record<string, LucideIcon> = {
+  Thermometer,
+  Palmtree,
+  Clock,
+  GraduationCap,
+  Scale,
+  Heart,
+  Hourglass,
+  House,
+  Plane,
+  Briefcase,
+  Laptop,
+  BookOpen,
+  Users,
+  Car,
+  Stethoscope,
+  Baby,
+  Star,
+};
+
+export const DayTypeIcon = ({ type, className }: { type: string; className?: string }) => {
+  const Icon = DAY_TYPE_ICONS[type];
+  return Icon ? <Icon className={cn("h-3 w-3", className)} /> : null;
+};
@@ -0,0 +1,291 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card } from "@/components/ui/card";
+import { Kbd } from "@/components/ui/kbd";
+import { Pencil, Shapes, Trash2 } from "lucide-react";
+import type {
+  CustomDayType,
+  CustomDayTypeId,
+  DayTypeCredit,
+  Settings,
+} from "@/types/flexi-tracker";
+import {
+  DAY_TYPE_COLORS,
+  DAY_TYPE_ICON_NAMES,
+  RESERVED_DAY_TYPE_SHORTCUTS,
+  SUGGESTED_DAY_TYPES,
+  formatDuration,
+} from "@/lib/flexi-tracker-utils";
+import { cn } from "@/lib/utils";
+import { DayTypeIcon } from "./DayTypeIcon";
+
+interface DayTypesSectionProps {
+  settings: Settings;
+  onChange: (settings: Settings) => void;
+}
+
+const CREDIT_OPTIONS: { value: DayTypeCredit; label: string }[] = [
+  { value: "full", label: "Full day" },
+  { value: "half", label: "Half day" },
+  { value: "none", label: "Time worked" },
+  { value: "minutes", label: "Fixed time" },
+];
+
+function describeCredit(type: CustomDayType): string {
+  switch (type.credit) {
+    case "full":
+      return "Credits the full day";
+    case "half":
+      return "Credits half a day";
+    case "minutes":
+      return `Credits ${formatDuration(type.creditMinutes || 0)}`;
+    default:
+      return "Counts time worked";
+  }
+}
+
+const newDayTypeId = (): CustomDayTypeId => `custom:${Date.now()}`;
+
+const emptyDraft = (): CustomDayType => ({
+  id: newDayTypeId(),
+  label: "",
+  icon: "Star",
+  color: "emerald",
+  shortcut: null,
+  credit: "full",
+});
+
+export function DayTypesSection({ settings, onChange }: DayTypesSectionProps) {
+  const [draft, setDraft] = useState<CustomDayType | null>(null);
+  const types = settings.customDayTypes || [];
+
+  const setTypes = (next: CustomDayType[]) => onChange({ ...settings, customDayTypes: next });
+
+  const suggestions = SUGGESTED_DAY_TYPES.filter(
+    (s) => !types.some((t) => t.label.toLowerCase() === s.label.toLowerCase())
+  );
+
+  const getShortcutError = (): string | null => {
+    const shortcut = draft?.shortcut;
+    if (!shortcut) return null;
+    if (!/^[A-Z]$/.test(shortcut)) return "Use a single letter";
+    if (RESERVED_DAY_TYPE_SHORTCUTS.includes(shortcut)) return `${shortcut} is a built-in preset`;
+    const clash = types.find((t) => t.id !== draft.id && t.shortcut === shortcut);
+    return clash ? `${shortcut} is used by ${clash.label}` : null;
+  };
+  const shortcutError = getShortcutError();
+
+  // Suggested types drop their mnemonic if another type already has it
+  const addSuggestion = (suggestion: Omit<CustomDayType, "id">) => {
+    const taken = types.some((t) => t.shortcut === suggestion.shortcut);
+    setTypes([
+      ...types,
+      {
+        ...suggestion,
+        id: newDayTypeId(),
+        shortcut: taken ? null : suggestion.shortcut,
+      },
+    ]);
+  };
+
+  const handleSave = () => {
+    if (!draft || !draft.label.trim() || shortcutError) return;
+    const saved = { ...draft, label: draft.label.trim() };
+    const exists = types.some((t) => t.id === saved.id);
+    setTypes(exists ? types.map((t) => (t.id === saved.id ? saved : t)) : [...types, saved]);
+    setDraft(null);
+  };
+
+  return (
+    <div className="pt-4 border-t">
+      <label className="text-sm font-medium flex items-center gap-2 mb-3">
+        <Shapes className="h-4 w-4 text-muted-foreground" />
+        Day Types
+      </label>
+
+      {types.length > 0 && (
+        <div className="space-y-2 mb-3">
+          {types.map((type) => (
+            <Card key={type.id} className="flex items-center justify-between p-3 gap-2 group">
+              <div className="flex items-center gap-3 min-w-0">
+                <div
+                  className={cn(
+                    "flex h-7 w-7 shrink-0 items-center justify-center rounded-md border",
+                    DAY_TYPE_COLORS[type.color]
+                  )}
+                >
+                  <DayTypeIcon type={type.icon} className="h-4 w-4" />
+                </div>
+                <div className="min-w-0">
+                  <div className="text-sm font-medium flex items-center gap-2">
+                    <span className="truncate">{type.label}</span>
+                    {type.shortcut && <Kbd>{type.shortcut}</Kbd>}
+                  </div>
+                  <div className="text-xs text-muted-foreground">{describeCredit(type)}</div>
+                </div>
+              </div>
+              <div className="flex opacity-0 group-hover:opacity-100">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setDraft(type)}
+                  className="text-muted-foreground"
+                >
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setTypes(types.filter((t) => t.id !== type.id))}
+                  className="text-muted-foreground hover:text-destructive"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      {!draft ? (
+        <div className="space-y-2">
+          {suggestions.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {suggestions.map((suggestion) => (
+                <Button
+                  key={suggestion.label}
+                  variant="outline"
+                  size="sm"
+                  onClick={() => addSuggestion(suggestion)}
+                >
+                  <DayTypeIcon type={suggestion.icon} />
+                  {suggestion.label}
+                </Button>
+              ))}
+            </div>
+          )}
+          <Button
+            variant="outline"
+            size="sm"
+            className="w-full border-dashed"
+            onClick={() => setDraft(emptyDraft())}
+          >
+            + Custom Type
+          </Button>
+        </div>
+      ) : (
+        <Card className="p-4 space-y-3">
+          <div className="flex gap-3">
+            <div className="flex-1">
+              <label className="block text-xs text-muted-foreground mb-2">Name</label>
+              <Input
+                value={draft.label}
+                onChange={(e) => setDraft({ ...draft, label: e.target.value })}
+                placeholder="e.g. Training"
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-muted-foreground mb-2">Key</label>
+              <Input
+                value={draft.shortcut || ""}
+                onChange={(e) =>
+                  setDraft({ ...draft, shortcut: e.target.value.slice(-1).toUpperCase() || null })
+                }
+                className="w-14 text-center uppercase"
+              />
+            </div>
+          </div>
+          {shortcutError && <p className="text-xs text-destructive">{shortcutError}</p>}
+
+          <div>
+            <label className="block text-xs text-muted-foreground mb-2">Icon</label>
+            <div className="flex flex-wrap gap-1">
+              {DAY_TYPE_ICON_NAMES.map((icon) => (
+                <Button
+                  key={icon}
+                  variant={draft.icon === icon ? "default" : "outline"}
+                  size="icon"
+                  onClick={() => setDraft({ ...draft, icon })}
+                >
+                  <DayTypeIcon type={icon} className="h-4 w-4" />
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-xs text-muted-foreground mb-2">Colour</label>
+            <div className="flex flex-wrap gap-2">
+              {Object.entries(DAY_TYPE_COLORS).map(([color, classes]) => (
+                <button
+                  key={color}
+                  onClick={() => setDraft({ ...draft, color })}
+                  title={color}
+                  className={cn(
+                    "h-7 w-7 rounded-md border-2",
+                    classes,
+                    draft.color === color && "ring-2 ring-primary ring-offset-2"
+                  )}
+                />
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-xs text-muted-foreground mb-2">Counts as</label>
+            <div className="flex flex-wrap gap-2">
+              {CREDIT_OPTIONS.map(({ value, label }) => (
+                <Button
+                  key={value}
+                  variant={draft.credit === value ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => setDraft({ ...draft, credit: value })}
+                >
+                  {label}
+                </Button>
+              ))}
+            </div>
+            {draft.credit === "minutes" && (
+              <div className="flex items-center gap-3 mt-2">
+                <Input
+                  type="number"
+                  value={(draft.creditMinutes || 0) / 60}
+                  onChange={(e) =>
+                    setDraft({
+                      ...draft,
+                      creditMinutes: Math.round(Math.max(0, parseFloat(e.target.value) || 0) * 60),
+                    })
+                  }
+                  step="0.5"
+                  min="0"
+                  max="24"
+                  className="w-24 text-center"
+                />
+                <span className="text-muted-foreground">hours plus time worked</span>
+              </div>
+            )}
+          </div>
+
+          <div className="flex gap-2">
+            <Button
+              className="flex-1"
+              onClick={handleSave}
+              disabled={!draft.label.trim() || !!shortcutError}
+            >
+              Save
+            </Button>
+            <Button variant="ghost" onClick={() => setDraft(null)}>
+              Cancel
+            </Button>
+          </div>
+        </Card>
+      )}
+
+      <p className="text-xs text-muted-foreground mt-2">
+        Extra presets for the day menu. Days already marked with a type you remove count as normal
+        days.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import type { Settings } from "@/types/flexi-tracker";
+import { FULL_DAYS, formatDuration, getWeeklyTarget } from "@/lib/flexi-tracker-utils";
+
+type ExpectedHours = Pick<
+  Settings,
+  "workingDays" | "expectedMinutesPerDay" | "expectedMinutesByWeekday"
+>;
+
+interface ExpectedHoursInputProps {
+  value: ExpectedHours;
+  onChange: (patch: Partial<ExpectedHours>) => void;
+}
+
+const parseHours = (value: string): number => Math.max(0, parseFloat(value) || 0) * 60;
+
+export function ExpectedHoursInput({ value, onChange }: ExpectedHoursInputProps) {
+  const byWeekday = value.expectedMinutesByWeekday;
+
+  return (
+    <div className="space-y-2">
+      {!byWeekday ? (
+        <div className="flex items-center gap-3">
+          <Input
+            type="number"
+            value={value.expectedMinutesPerDay / 60}
+            onChange={(e) => onChange({ expectedMinutesPerDay: parseHours(e.target.value) })}
+            step="0.5"
+            min="0"
+            max="24"
+            className="w-24 text-center"
+          />
+          <span className="text-muted-foreground">hours</span>
+        </div>
+      ) : (
+        <div className="grid grid-cols-2 gap-2">
+          {FULL_DAYS.map((day, i) =>
+            value.workingDays.includes(i) ? (
+              <div key={day} className="flex items-center gap-2">
+                <span className="w-10 text-sm text-muted-foreground">{day.slice(0, 3)}</span>
+                <Input
+                  type="number"
+                  value={(byWeekday[i] ?? value.expectedMinutesPerDay) / 60}
+                  onChange={(e) => {
+                    const next = [...byWeekday];
+                    next[i] = parseHours(e.target.value);
+                    onChange({ expectedMinutesByWeekday: next });
+                  }}
+                  step="0.5"
+                  min="0"
+                  max="24"
+                  className="w-20 text-center"
+                />
+              </div>
+            ) : null
+          )}
+        </div>
+      )}
+
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-muted-foreground">
+          Weekly target: {formatDuration(getWeeklyTarget(value))}
+        </p>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-6 text-xs text-muted-foreground"
+          onClick={() =>
+            onChange({
+              expectedMinutesByWeekday: byWeekday
+                ? null
+                : Array(7).fill(value.expectedMinutesPerDay),
+            })
+          }
+        >
+          {byWeekday ? "Same every day" : "Vary by day"}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -2,29 +2,80 @@ import { useState, useEffect, useMemo, useRef, useCallback } from "react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Kbd } from "@/components/ui/kbd";
-import { Settings, Clock, ChevronRight, Palmtree } from "lucide-react";
+import {
+  Settings,
+  Clock,
+  ChevronRight,
+  Palmtree,
+  Hourglass,
+  CalendarRange,
+  Thermometer,
+  AlertTriangle,
+} from "lucide-react";
 import { useStorage } from "@/hooks/use-storage";
 import { useShiftKey } from "@/hooks/use-shift-key";
 import {
   DEFAULT_SETTINGS,
   DEFAULT_STATE,
+  DAYS,
   getWeekDates,
   getDateStr,
   calculateEffectiveWorked,
+  checkDayRules,
   formatDuration,
   formatDurationDecimal,
   formatMinutes,
   formatMinutesDecimal,
-  calculateUsedLeaveDays,
+  calculateLeaveStats,
+  getClockTimeStr,
   getCurrentTimeStr,
+  getOpenBreak,
+  pauseTracking,
+  resumeTracking,
+  clockIn,
+  clockOut,
+  entryHasData,
+  calculateDayBalance,
+  getTypicalBreak,
+  recordAdjustmentDeletion,
+  recordAllowanceDeletions,
+  recordHolidayDeletions,
+  recordPlanChanges,
+  recordSettingsChangeDeletions,
+  recordEntryChange,
+  getLiveTrackingDate,
+  normalizeState,
+  getSettingsForDate,
+  calculateOverallBalance,
+  calculateSettlementLedger,
+  calculateToilBalance,
+  parseDateStr,
+  formatLeaveAmount,
+  formatShortDate,
+  getAllowanceTotal,
+  getDayLeaveMinutes,
+  getDaySchedule,
+  getEffectiveExpected,
 } from "@/lib/flexi-tracker-utils";
+import { createStamp, stampSettingsChanges } from "@/lib/sync/device";
 import { cn } from "@/lib/utils";
-import type { DayEntry, AppState, LeaveBalance } from "@/types/flexi-tracker";
+import type {
+  DayEntry,
+  AppState,
+  LeaveAllowance,
+  PublicHoliday,
+  RuleViolation,
+  SettingsChange,
+} from "@/types/flexi-tracker";
 
 import { DayCard, type DayCardRef } from "./DayCard";
 import { WeekNav } from "./WeekNav";
 import { SettingsPanel } from "./SettingsPanel";
 import { AdjustmentsPanel } from "./AdjustmentsPanel";
+import { SettlementLedgerPanel } from "./SettlementLedgerPanel";
+import { PlannerPanel } from "./PlannerPanel";
+import { SicknessReportPanel } from "./SicknessReportPanel";
+import { LeaveTimesCard } from "./LeaveTimesCard";
 import { SyncPanel } from "./SyncPanel";
 import { KeyboardShortcutsPanel } from "./KeyboardShortcutsPanel";
 import { ModeToggle } from "@/components/mode-toggle";
@@ -34,6 +85,9 @@ export function FlexiTracker() {
   const [currentDate, setCurrentDate] = useState(new Date());
   const [showSettings, setShowSettings] = useState(false);
   const [showAdjustments, setShowAdjustments] = useState(false);
+  const [showLedger, setShowLedger] = useState(false);
+  const [showPlanner, setShowPlanner] = useState(false);
+  const [showSickness, setShowSickness] = useState(false);
   const [showSync, setShowSync] = useState(false);
   const [showKeyboardShortcuts, setShowKeyboardShortcuts] = useState(false);
   const [syncMode, setSyncMode] = useState<"host" | "scan">("host");
@@ -46,7 +100,15 @@ export function FlexiTracker() {
   const fmtDuration = shiftHeld ? formatDurationDecimal : formatDuration;
   const fmtMinutes = shiftHeld ? formatMinutesDecimal : formatMinutes;
 
-  const { settings, entries, adjustments, leaveBalance } = state;
+  const {
+    settings,
+    entries,
+    adjustments,
+    leaveAllowances,
+    settingsHistory,
+    publicHolidays,
+    plannedEntries,
+  } = state;
 
   const weekDates = useMemo(
     () => getWeekDates(currentDate, settings.weekStartsOn),
@@ -58,13 +120,29 @@ export function FlexiTracker() {
     return dayCardRefs.current.some((ref) => ref?.isPresetsOpen());
   }, []);
 
+  // Settings and schedule in force on a given day (contract changes are effective-dated)
+  const getDayInfo = useCallback(
+    (date: Date) => {
+      const daySettings = getSettingsForDate(settings, settingsHistory, getDateStr(date));
+      return { daySettings, ...getDaySchedule(daySettings, date, publicHolidays) };
+    },
+    [settings, settingsHistory, publicHolidays]
+  );
+
+  // Public holidays stay visible when non-working days are hidden
+  const isDayHidden = useCallback(
+    (date: Date) => {
+      if (settings.nonWorkingDayDisplay !== "hide") return false;
+      const { isWorkingDay, publicHoliday } = getDayInfo(date);
+      return !isWorkingDay && !publicHoliday;
+    },
+    [settings.nonWorkingDayDisplay, getDayInfo]
+  );
+
   // Get filtered visible days (matching the render logic)
   const getVisibleDays = useCallback(() => {
-    return weekDates.filter((date) => {
-      if (settings.nonWorkingDayDisplay !== "hide") return true;
-      return settings.workingDays.includes(date.getDay());
-    });
-  }, [weekDates, settings.nonWorkingDayDisplay, settings.workingDays]);
+    return weekDates.filter((date) => !isDayHidden(date));
+  }, [weekDates, isDayHidden]);
 
   // Get the index in weekDates for today
   const getTodayIndex = useCallback(() => {
@@ -76,14 +154,16 @@ export function FlexiTracker() {
   // Update entry helper (defined early for keyboard shortcuts)
   const updateEntry = useCallback(
     (dateStr: string, entry: DayEntry | null) => {
+      const tombstones = recordEntryChange(state.tombstones, dateStr, entries[dateStr], entry);
       if (entry === null) {
         const newEntries = { ...entries };
         delete newEntries[dateStr];
-        save({ ...state, entries: newEntries });
+        save({ ...state, entries: newEntries, tombstones });
       } else {
         save({
           ...state,
-          entries: { ...entries, [dateStr]: entry },
+          entries: { ...entries, [dateStr]: { ...entry, modified: createStamp() } },
+          tombstones,
         });
       }
     },
@@ -98,7 +178,14 @@ export function FlexiTracker() {
       if ((e.target as HTMLElement).tagName === "TEXTAREA") return;
 
       // Don't handle most shortcuts when a modal is open (except Escape)
-      const modalOpen = showSettings || showAdjustments || showSync || showKeyboardShortcuts;
+      const modalOpen =
+        showSettings ||
+        showAdjustments ||
+        showLedger ||
+        showPlanner ||
+        showSickness ||
+        showSync ||
+        showKeyboardShortcuts;
 
       // Handle Escape to close modals
       if (e.key === "Escape") {
@@ -175,22 +262,39 @@ export function FlexiTracker() {
       if (e.key === "i" || e.key === "I") {
         const todayStr = getDateStr(new Date());
         const todayEntry = entries[todayStr];
-        // Only clock in if today is visible and not already clocked in
-        if (!todayEntry?.startTime) {
+        // Only clock in if not already clocked in; a later clock-in starts a new session
+        if (!getLiveTrackingDate(entries)) {
           e.preventDefault();
-          updateEntry(todayStr, { ...todayEntry, startTime: getCurrentTimeStr() });
+          updateEntry(todayStr, clockIn(todayEntry, getClockTimeStr(settings.rounding, "start")));
         }
         return;
       }
 
-      // O: Clock out (today only)
+      // O: Clock out of the running session (may have started yesterday)
       if (e.key === "o" || e.key === "O") {
-        const todayStr = getDateStr(new Date());
-        const todayEntry = entries[todayStr];
-        // Only clock out if clocked in and not already clocked out
-        if (todayEntry?.startTime && !todayEntry?.endTime) {
+        const liveDateStr = getLiveTrackingDate(entries);
+        if (liveDateStr) {
           e.preventDefault();
-          updateEntry(todayStr, { ...todayEntry, endTime: getCurrentTimeStr() });
+          updateEntry(
+            liveDateStr,
+            clockOut(entries[liveDateStr], getClockTimeStr(settings.rounding, "end"))
+          );
+        }
+        return;
+      }
+
+      // B: Pause or resume the running session for a break
+      if (e.key === "b" || e.key === "B") {
+        const liveDateStr = getLiveTrackingDate(entries);
+        if (liveDateStr) {
+          e.preventDefault();
+          const liveEntry = entries[liveDateStr];
+          updateEntry(
+            liveDateStr,
+            getOpenBreak(liveEntry)
+              ? resumeTracking(liveEntry, getCurrentTimeStr())
+              : pauseTracking(liveEntry, getCurrentTimeStr())
+          );
         }
         return;
       }
@@ -208,6 +312,13 @@ export function FlexiTracker() {
         setShowAdjustments(true);
         return;
       }
+
+      // L: Open leave planner
+      if (e.key === "l" || e.key === "L") {
+        e.preventDefault();
+        setShowPlanner(true);
+        return;
+      }
     };
 
     window.addEventListener("keydown", handleKeyDown);
@@ -215,6 +326,9 @@ export function FlexiTracker() {
   }, [
     showSettings,
     showAdjustments,
+    showLedger,
+    showPlanner,
+    showSickness,
     showSync,
     showKeyboardShortcuts,
     isAnyPresetOpen,
@@ -223,90 +337,176 @@ export function FlexiTracker() {
     getVisibleDays,
     entries,
     updateEntry,
+    settings.rounding,
   ]);
 
   const weekStats = useMemo(() => {
     let worked = 0;
     let expected = 0;
+    const violations: { date: Date; violation: RuleViolation }[] = [];
 
     weekDates.forEach((date) => {
       const key = getDateStr(date);
       const entry = entries[key];
-      const isWorkingDay = settings.workingDays.includes(date.getDay());
-      const hasEntry = entry && (entry.startTime || entry.endTime || entry.dayType);
+      const { daySettings, isWorkingDay, expectedMinutes } = getDayInfo(date);
+      const hasEntry = entryHasData(entry);
 
       worked += calculateEffectiveWorked(
         entry,
-        settings.expectedMinutesPerDay,
+        expectedMinutes,
         isWorkingDay,
-        settings.nonWorkingDayRate
+        daySettings.nonWorkingDayRate,
+        daySettings
       );
       // Only count expected hours for days that have entries
-      if (isWorkingDay && hasEntry) expected += settings.expectedMinutesPerDay;
+      if (hasEntry) expected += getEffectiveExpected(entry, daySettings, date, publicHolidays);
+      checkDayRules(entry, isWorkingDay, daySettings).forEach((violation) =>
+        violations.push({ date, violation })
+      );
     });
 
-    return { worked, expected, balance: worked - expected };
-  }, [weekDates, entries, settings]);
+    return { worked, expected, balance: worked - expected, violations };
+  }, [weekDates, entries, getDayInfo, publicHolidays]);
 
-  const overallBalance = useMemo(() => {
-    let total = 0;
-    Object.entries(entries).forEach(([dateStr, entry]) => {
-      // Skip empty entries (stale data from cleared days)
-      if (!entry || (!entry.startTime && !entry.endTime && !entry.dayType)) {
-        return;
-      }
-      // Parse date in local timezone to avoid UTC offset issues
-      const [year, month, day] = dateStr.split("-").map(Number);
-      const date = new Date(year, month - 1, day);
-      const isWorkingDay = settings.workingDays.includes(date.getDay());
-      const effectiveWorked = calculateEffectiveWorked(
-        entry,
-        settings.expectedMinutesPerDay,
-        isWorkingDay,
-        settings.nonWorkingDayRate
-      );
-      if (isWorkingDay) {
-        total += effectiveWorked - settings.expectedMinutesPerDay;
-      } else {
-        total += effectiveWorked;
-      }
-    });
+  const overallBalance = useMemo(
+    () =>
+      calculateOverallBalance({ entries, adjustments, settings, settingsHistory, publicHolidays }),
+    [entries, adjustments, settings, settingsHistory, publicHolidays]
+  );
 
-    total += adjustments.reduce((sum, a) => sum + a.minutes, 0);
+  const settlementLedger = useMemo(
+    () =>
+      settings.settlement
+        ? calculateSettlementLedger(
+            { entries, adjustments, settings, settingsHistory, publicHolidays },
+            settings.settlement
+          )
+        : null,
+    [entries, adjustments, settings, settingsHistory, publicHolidays]
+  );
 
-    return total;
-  }, [entries, settings, adjustments]);
+  // The period containing today, with the days remaining in it (including today)
+  const currentPeriod = useMemo(() => {
+    const period = settlementLedger?.find((p) => p.isOpen);
+    if (!period) return null;
+    const today = parseDateStr(getDateStr(new Date()));
+    const daysLeft = Math.round((parseDateStr(period.end).getTime() - today.getTime()) / 86400000);
+    return { ...period, daysLeft: daysLeft + 1 };
+  }, [settlementLedger]);
+
+  const toilBalance = useMemo(
+    () => calculateToilBalance({ entries, adjustments, settings, settingsHistory, publicHolidays }),
+    [entries, adjustments, settings, settingsHistory, publicHolidays]
+  );
 
-  const leaveStats = useMemo(() => {
-    if (!leaveBalance || leaveBalance.totalDays === 0) return null;
-    const used = calculateUsedLeaveDays(entries, leaveBalance);
-    const remaining = leaveBalance.totalDays - used;
-    return { used, remaining, total: leaveBalance.totalDays };
-  }, [entries, leaveBalance]);
+  // Only show the TOIL bank once it has been used
+  const usesToil = useMemo(
+    () =>
+      adjustments.some((a) => a.toil) ||
+      Object.values(entries).some(
+        (e) => e?.toilMinutes || e?.dayType === "toil" || e?.dayType === "toil-half"
+      ),
+    [entries, adjustments]
+  );
+
+  const leaveStats = useMemo(
+    () =>
+      (leaveAllowances || [])
+        .filter((allowance) => getAllowanceTotal(allowance) > 0)
+        .map((allowance) => ({
+          id: allowance.id,
+          name: allowance.name,
+          unit: allowance.unit,
+          ...calculateLeaveStats(entries, allowance, { settings, settingsHistory, publicHolidays }),
+        })),
+    [entries, leaveAllowances, settings, settingsHistory, publicHolidays]
+  );
+  const balanceCardCount = 1 + (usesToil ? 1 : 0) + leaveStats.length;
 
   const updateSettings = (newSettings: typeof settings) => {
-    save({ ...state, settings: newSettings });
+    save({
+      ...state,
+      settings: newSettings,
+      settingsModified: stampSettingsChanges(state.settingsModified, settings, newSettings),
+    });
   };
 
-  const updateLeaveBalance = (newLeaveBalance: LeaveBalance | undefined) => {
-    save({ ...state, leaveBalance: newLeaveBalance });
+  const updateSettingsHistory = (newHistory: SettingsChange[]) => {
+    save({
+      ...state,
+      settingsHistory: newHistory,
+      tombstones: recordSettingsChangeDeletions(
+        state.tombstones,
+        settingsHistory || [],
+        newHistory
+      ),
+    });
+  };
+
+  const updatePlannedEntries = (newPlanned: Record<string, DayEntry>) => {
+    // Stamp new and changed plans, and record removed ones, so sync carries both across
+    const stamp = createStamp();
+    const previous = plannedEntries || {};
+    save({
+      ...state,
+      plannedEntries: Object.fromEntries(
+        Object.entries(newPlanned).map(([date, plan]) => [
+          date,
+          previous[date] === plan ? plan : { ...plan, modified: stamp },
+        ])
+      ),
+      tombstones: recordPlanChanges(state.tombstones, previous, newPlanned),
+    });
+  };
+
+  const updatePublicHolidays = (newHolidays: PublicHoliday[]) => {
+    save({
+      ...state,
+      publicHolidays: newHolidays,
+      tombstones: recordHolidayDeletions(state.tombstones, publicHolidays || [], newHolidays),
+    });
+  };
+
+  const updateLeaveAllowances = (newAllowances: LeaveAllowance[]) => {
+    // Stamp only the allowances that changed, so sync keeps the newer edit of each
+    const stamp = createStamp();
+    const previous = new Map((leaveAllowances || []).map((a) => [a.id, JSON.stringify(a)]));
+    save({
+      ...state,
+      leaveAllowances: newAllowances.map((a) =>
+        previous.get(a.id) === JSON.stringify(a) ? a : { ...a, modified: stamp }
+      ),
+      tombstones: recordAllowanceDeletions(state.tombstones, leaveAllowances || [], newAllowances),
+    });
   };
 
   const addAdjustment = (adj: (typeof adjustments)[0]) => {
-    save({ ...state, adjustments: [...adjustments, adj] });
+    save({ ...state, adjustments: [...adjustments, { ...adj, modified: createStamp() }] });
   };
 
   const deleteAdjustment = (id: string) => {
-    save({ ...state, adjustments: adjustments.filter((a) => a.id !== id) });
+    save({
+      ...state,
+      adjustments: adjustments.filter((a) => a.id !== id),
+      tombstones: recordAdjustmentDeletion(state.tombstones, id),
+    });
   };
 
   const importData = (data: Partial<AppState>) => {
-    const merged: AppState = {
+    const merged: AppState = normalizeState({
       settings: { ...DEFAULT_SETTINGS, ...data.settings },
       entries: data.entries || {},
       adjustments: data.adjustments || [],
+      leaveAllowances: data.leaveAllowances,
       leaveBalance: data.leaveBalance,
-    };
+      settingsHistory: data.settingsHistory || [],
+      publicHolidays: data.publicHolidays || [],
+      plannedEntries: data.plannedEntries || {},
+      tombstones: data.tombstones || [],
+      settingsModified: data.settingsModified,
+      syncedWith: data.syncedWith,
+      syncSnapshots: data.syncSnapshots,
+    });
     save(merged);
   };
 
@@ -323,6 +523,32 @@ export function FlexiTracker() {
     save(mergedState);
   };
 
+  const liveDateStr = getLiveTrackingDate(entries);
+
+  // What the live day has to make up for the week, and the overall balance, to come out even
+  const leaveTargets = useMemo(() => {
+    if (!liveDateStr) return null;
+    const liveDate = parseDateStr(liveDateStr);
+    const { daySettings } = getDayInfo(liveDate);
+    const dayBalance = (date: Date) =>
+      calculateDayBalance(
+        entries[getDateStr(date)],
+        date,
+        getDayInfo(date).daySettings,
+        publicHolidays
+      );
+    const otherWeekBalance = getWeekDates(liveDate, settings.weekStartsOn)
+      .filter((date) => getDateStr(date) !== liveDateStr && entryHasData(entries[getDateStr(date)]))
+      .reduce((sum, date) => sum + dayBalance(date), 0);
+    return {
+      date: liveDate,
+      daySettings,
+      typicalBreak: getTypicalBreak(entries, liveDateStr),
+      week: -otherWeekBalance,
+      balance: dayBalance(liveDate) - overallBalance,
+    };
+  }, [liveDateStr, entries, getDayInfo, publicHolidays, settings.weekStartsOn, overallBalance]);
+
   if (!loaded) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
@@ -342,6 +568,22 @@ export function FlexiTracker() {
           </div>
           <div className="flex items-center gap-1">
             <ModeToggle />
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setShowPlanner(true)}
+              title="Leave planner"
+            >
+              <CalendarRange className="h-6 w-6" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setShowSickness(true)}
+              title="Sickness report"
+            >
+              <Thermometer className="h-6 w-6" />
+            </Button>
             <Button variant="ghost" size="icon" onClick={() => setShowSettings(true)}>
               <Settings className="h-6 w-6" />
             </Button>
@@ -361,15 +603,15 @@ export function FlexiTracker() {
           )}
         >
           {weekDates
-            .filter((date) => {
-              if (settings.nonWorkingDayDisplay !== "hide") return true;
-              return settings.workingDays.includes(date.getDay());
-            })
+            .filter((date) => !isDayHidden(date))
             .map((date, index) => {
               const key = getDateStr(date);
-              const isWorkingDay = settings.workingDays.includes(date.getDay());
+              const { daySettings, isWorkingDay, expectedMinutes, publicHoliday } =
+                getDayInfo(date);
               const isToday = getDateStr(new Date()) === key;
-              const isDisabled = !isWorkingDay && settings.nonWorkingDayDisplay === "disable";
+              const isLive = liveDateStr === key;
+              const isDisabled =
+                !isWorkingDay && !publicHoliday && settings.nonWorkingDayDisplay === "disable";
               const isSelected = selectedDayIndex === index;
 
               const yesterday = new Date(date);
@@ -385,13 +627,28 @@ export function FlexiTracker() {
                   }}
                   date={date}
                   entry={entries[key] || {}}
-                  expected={settings.expectedMinutesPerDay}
+                  expected={expectedMinutes}
                   isWorkingDay={isWorkingDay}
+                  publicHoliday={publicHoliday}
+                  customDayTypes={settings.customDayTypes}
+                  rules={settings.rules}
+                  autoBreakRules={settings.autoBreakRules}
+                  rounding={settings.rounding}
                   isToday={isToday}
+                  isLive={isLive}
+                  canClockIn={!liveDateStr}
                   isDisabled={isDisabled}
                   isSelected={isSelected}
-                  rate={settings.nonWorkingDayRate}
+                  rate={daySettings.nonWorkingDayRate}
                   yesterdayEntry={yesterdayEntry}
+                  plannedDayType={
+                    key >= getDateStr(new Date()) ? plannedEntries?.[key]?.dayType : undefined
+                  }
+                  leaveMinutes={getDayLeaveMinutes(entries[key], key, leaveAllowances || [], {
+                    settings,
+                    settingsHistory,
+                    publicHolidays,
+                  })}
                   shiftHeld={shiftHeld}
                   onChange={(entry) => updateEntry(key, entry)}
                 />
@@ -399,6 +656,20 @@ export function FlexiTracker() {
             })}
         </div>
 
+        {/* When to clock out */}
+        {liveDateStr && leaveTargets && (
+          <LeaveTimesCard
+            entry={entries[liveDateStr]}
+            date={leaveTargets.date}
+            daySettings={leaveTargets.daySettings}
+            publicHolidays={publicHolidays}
+            typicalBreak={leaveTargets.typicalBreak}
+            weekTarget={leaveTargets.week}
+            balanceTarget={leaveTargets.balance}
+            shiftHeld={shiftHeld}
+          />
+        )}
+
         {/* Week Summary */}
         <Card className="p-5 mb-4">
           <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
@@ -429,11 +700,29 @@ export function FlexiTracker() {
               </div>
             </div>
           </div>
+          {weekStats.violations.length > 0 && (
+            <div className="mt-4 pt-4 border-t space-y-1">
+              {weekStats.violations.map(({ date, violation }) => (
+                <div
+                  key={`${getDateStr(date)}-${violation.rule}`}
+                  className="flex items-center gap-2 text-sm text-amber-600 dark:text-amber-400"
+                >
+                  <AlertTriangle className="h-4 w-4 shrink-0" />
+                  <span className="font-medium w-10">{DAYS[date.getDay()]}</span>
+                  <span>{violation.message}</span>
+                </div>
+              ))}
+            </div>
+          )}
         </Card>
 
         {/* Balance Cards */}
         <div
-          className={cn("grid gap-4", leaveStats ? "grid-cols-1 sm:grid-cols-2" : "grid-cols-1")}
+          className={cn(
+            "grid gap-4 grid-cols-1",
+            balanceCardCount >= 2 && "sm:grid-cols-2",
+            balanceCardCount >= 3 && "lg:grid-cols-3"
+          )}
         >
           {/* Overall Flexi Balance */}
           <Card
@@ -464,23 +753,79 @@ export function FlexiTracker() {
                   >
                     {fmtMinutes(overallBalance)}
                   </div>
+                  {currentPeriod && (
+                    <div className="text-xs text-muted-foreground">
+                      Period ends {formatShortDate(currentPeriod.end)} · {currentPeriod.daysLeft}{" "}
+                      {currentPeriod.daysLeft === 1 ? "day" : "days"} left
+                    </div>
+                  )}
                 </div>
               </div>
               <div className="text-muted-foreground text-sm flex items-center gap-1">
+                {settlementLedger && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 text-xs text-muted-foreground"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setShowLedger(true);
+                    }}
+                  >
+                    Ledger
+                  </Button>
+                )}
                 <ChevronRight className="h-4 w-4" />
               </div>
             </div>
           </Card>
 
-          {/* Annual Leave Balance */}
-          {leaveStats && (
-            <Card className="p-4">
+          {/* TOIL Balance */}
+          {usesToil && (
+            <Card
+              onClick={() => setShowAdjustments(true)}
+              className="p-4 cursor-pointer hover:bg-muted/50 transition-colors"
+            >
+              <div className="flex items-center gap-3">
+                <div
+                  className={cn(
+                    "w-10 h-10 rounded-xl flex items-center justify-center",
+                    toilBalance >= 0
+                      ? "bg-orange-100 dark:bg-orange-950 text-orange-600 dark:text-orange-400"
+                      : "bg-rose-100 dark:bg-rose-950 text-rose-600 dark:text-rose-400"
+                  )}
+                >
+                  <Hourglass className="h-5 w-5" />
+                </div>
+                <div>
+                  <div className="text-muted-foreground text-sm">TOIL</div>
+                  <div
+                    className={cn(
+                      "text-2xl font-bold",
+                      toilBalance >= 0
+                        ? "text-orange-600 dark:text-orange-400"
+                        : "text-rose-600 dark:text-rose-400"
+                    )}
+                  >
+                    {fmtDuration(Math.abs(toilBalance))}
+                    {toilBalance < 0 && (
+                      <span className="text-base font-normal text-muted-foreground"> owed</span>
+                    )}
+                  </div>
+                </div>
+              </div>
+            </Card>
+          )}
+
+          {/* Leave Allowances */}
+          {leaveStats.map((stats) => (
+            <Card key={stats.id} className="p-4">
               <div className="flex items-center justify-between">
                 <div className="flex items-center gap-3">
                   <div
                     className={cn(
                       "w-10 h-10 rounded-xl flex items-center justify-center",
-                      leaveStats.remaining > 0
+                      stats.remaining > 0
                         ? "bg-sky-100 dark:bg-sky-950 text-sky-600 dark:text-sky-400"
                         : "bg-rose-100 dark:bg-rose-950 text-rose-600 dark:text-rose-400"
                     )}
@@ -488,36 +833,44 @@ export function FlexiTracker() {
                     <Palmtree className="h-5 w-5" />
                   </div>
                   <div>
-                    <div className="text-muted-foreground text-sm">Annual Leave</div>
+                    <div className="text-muted-foreground text-sm">{stats.name}</div>
                     <div
                       className={cn(
                         "text-2xl font-bold",
-                        leaveStats.remaining > 0
+                        stats.remaining > 0
                           ? "text-sky-600 dark:text-sky-400"
                           : "text-rose-600 dark:text-rose-400"
                       )}
                     >
-                      {leaveStats.remaining % 1 === 0
-                        ? leaveStats.remaining
-                        : leaveStats.remaining.toFixed(1)}
+                      {formatLeaveAmount(stats.remaining, stats.unit, shiftHeld)}
                       <span className="text-base font-normal text-muted-foreground">
                         {" "}
-                        / {leaveStats.total}
+                        / {formatLeaveAmount(stats.entitlement, stats.unit, shiftHeld)}
                       </span>
                     </div>
                   </div>
                 </div>
-                <div className="text-muted-foreground text-xs text-right">
-                  {leaveStats.used > 0 && (
-                    <span>
-                      {leaveStats.used % 1 === 0 ? leaveStats.used : leaveStats.used.toFixed(1)}{" "}
-                      used
-                    </span>
+                <div className="text-muted-foreground text-xs text-right space-y-0.5">
+                  {stats.accrued < stats.entitlement && (
+                    <div>
+                      {formatLeaveAmount(stats.accrued, stats.unit, shiftHeld)} of{" "}
+                      {formatLeaveAmount(stats.entitlement, stats.unit, shiftHeld)} built up
+                    </div>
+                  )}
+                  {stats.carriedOver > 0 && (
+                    <div>
+                      incl. {formatLeaveAmount(stats.carriedOver, stats.unit, shiftHeld)} carried
+                      over
+                    </div>
                   )}
+                  {stats.used > 0 && (
+                    <div>{formatLeaveAmount(stats.used, stats.unit, shiftHeld)} used</div>
+                  )}
+                  <div>until {formatShortDate(stats.periodEnd)}</div>
                 </div>
               </div>
             </Card>
-          )}
+          ))}
         </div>
 
         {/* Footer */}
@@ -530,16 +883,35 @@ export function FlexiTracker() {
       <SettingsPanel
         open={showSettings}
         settings={settings}
-        leaveBalance={leaveBalance}
+        settingsHistory={settingsHistory || []}
+        publicHolidays={publicHolidays || []}
+        leaveAllowances={leaveAllowances || []}
         appState={state}
+        shiftHeld={shiftHeld}
         onChange={updateSettings}
-        onLeaveBalanceChange={updateLeaveBalance}
+        onSettingsHistoryChange={updateSettingsHistory}
+        onPublicHolidaysChange={updatePublicHolidays}
+        onLeaveAllowancesChange={updateLeaveAllowances}
         onImport={importData}
         onClear={clearData}
         onClose={() => setShowSettings(false)}
         onSync={handleSync}
       />
 
+      <PlannerPanel
+        open={showPlanner}
+        state={state}
+        shiftHeld={shiftHeld}
+        onChange={updatePlannedEntries}
+        onClose={() => setShowPlanner(false)}
+      />
+
+      <SicknessReportPanel
+        open={showSickness}
+        state={state}
+        onClose={() => setShowSickness(false)}
+      />
+
       <AdjustmentsPanel
         open={showAdjustments}
         adjustments={adjustments}
@@ -549,6 +921,16 @@ export function FlexiTracker() {
         onClose={() => setShowAdjustments(false)}
       />
 
+      {settings.settlement && settlementLedger && (
+        <SettlementLedgerPanel
+          open={showLedger}
+          ledger={settlementLedger}
+          settlement={settings.settlement}
+          shiftHeld={shiftHeld}
+          onClose={() => setShowLedger(false)}
+        />
+      )}
+
       <SyncPanel
         open={showSync}
         appState={state}
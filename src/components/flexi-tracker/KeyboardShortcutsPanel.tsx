@@ -32,6 +32,7 @@ const shortcutGroups: ShortcutGroup[] = [
       { keys: ["P"], description: "Open presets" },
       { keys: ["I"], description: "Clock in" },
       { keys: ["O"], description: "Clock out" },
+      { keys: ["B"], description: "Pause / resume" },
     ],
   },
   {
@@ -46,6 +47,9 @@ const shortcutGroups: ShortcutGroup[] = [
       { keys: ["⇧", "H"], description: "Half holiday" },
       { keys: ["F"], description: "Flexi day" },
       { keys: ["⇧", "F"], description: "Half flexi" },
+      { keys: ["T"], description: "TOIL day" },
+      { keys: ["⇧", "T"], description: "Half TOIL" },
+      { keys: ["L"], description: "Bank overtime as TOIL" },
     ],
   },
   {
@@ -53,6 +57,7 @@ const shortcutGroups: ShortcutGroup[] = [
     shortcuts: [
       { keys: [","], description: "Settings" },
       { keys: ["A"], description: "Adjustments" },
+      { keys: ["L"], description: "Leave planner" },
       { keys: ["Esc"], description: "Close panel" },
     ],
   },
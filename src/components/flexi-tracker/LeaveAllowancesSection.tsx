@@ -0,0 +1,274 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card } from "@/components/ui/card";
+import { Palmtree, Trash2 } from "lucide-react";
+import type { BuiltInDayType, CustomDayType, DayType, LeaveAllowance } from "@/types/flexi-tracker";
+import {
+  DAY_TYPES,
+  SUGGESTED_LEAVE_ALLOWANCES,
+  createLeaveAllowance,
+  formatDuration,
+  formatDurationDecimal,
+} from "@/lib/flexi-tracker-utils";
+
+interface LeaveAllowancesSectionProps {
+  allowances: LeaveAllowance[];
+  customDayTypes?: CustomDayType[];
+  shiftHeld: boolean;
+  onChange: (allowances: LeaveAllowance[]) => void;
+}
+
+// Full-day built-in types; their half-day variants count against the same allowance
+const LINKABLE_BUILT_IN_TYPES: BuiltInDayType[] = ["holiday", "sick", "flexi", "toil"];
+
+const UNIT_OPTIONS: { value: NonNullable<LeaveAllowance["unit"]>; label: string }[] = [
+  { value: "days", label: "Days" },
+  { value: "hours", label: "Hours" },
+];
+
+const ACCRUAL_OPTIONS: { value: NonNullable<LeaveAllowance["accrual"]>; label: string }[] = [
+  { value: "upfront", label: "All up front" },
+  { value: "monthly", label: "Builds up monthly" },
+];
+
+// Blank means nothing carries over; hours-based limits are stored in minutes
+const parseCarryOver = (value: string, allowance: LeaveAllowance): number | null => {
+  if (value.trim() === "") return null;
+  const amount = Math.max(0, parseFloat(value) || 0);
+  return allowance.unit === "hours" ? Math.round(amount * 60) : amount;
+};
+
+export function LeaveAllowancesSection({
+  allowances,
+  customDayTypes,
+  shiftHeld,
+  onChange,
+}: LeaveAllowancesSectionProps) {
+  const fmtDuration = shiftHeld ? formatDurationDecimal : formatDuration;
+
+  const linkableTypes = [
+    ...LINKABLE_BUILT_IN_TYPES.map((type): { type: DayType; label: string } => ({
+      type,
+      label: DAY_TYPES[type].label,
+    })),
+    ...(customDayTypes || []).map((t) => ({ type: t.id, label: t.label })),
+  ];
+
+  const suggestions = SUGGESTED_LEAVE_ALLOWANCES.filter(
+    (s) => !allowances.some((a) => a.name.toLowerCase() === s.name.toLowerCase())
+  );
+
+  const update = (id: string, patch: Partial<LeaveAllowance>) =>
+    onChange(allowances.map((a) => (a.id === id ? { ...a, ...patch } : a)));
+
+  const toggleDayType = (allowance: LeaveAllowance, type: DayType) =>
+    update(allowance.id, {
+      dayTypes: allowance.dayTypes.includes(type)
+        ? allowance.dayTypes.filter((t) => t !== type)
+        : [...allowance.dayTypes, type],
+    });
+
+  return (
+    <div className="pt-4 border-t">
+      <label className="text-sm font-medium flex items-center gap-2 mb-3">
+        <Palmtree className="h-4 w-4 text-sky-500" />
+        Leave Allowances
+      </label>
+
+      {allowances.length > 0 && (
+        <div className="space-y-2 mb-3">
+          {allowances.map((allowance) => (
+            <Card key={allowance.id} className="p-3 space-y-3 gap-0">
+              <div className="flex items-center gap-2">
+                <Input
+                  value={allowance.name}
+                  onChange={(e) => update(allowance.id, { name: e.target.value })}
+                  className="flex-1 font-medium"
+                />
+                {allowance.unit === "hours" ? (
+                  <>
+                    <Input
+                      type="number"
+                      value={(allowance.totalMinutes || 0) / 60}
+                      onChange={(e) =>
+                        update(allowance.id, {
+                          totalMinutes: Math.round(
+                            Math.max(0, parseFloat(e.target.value) || 0) * 60
+                          ),
+                        })
+                      }
+                      step="0.5"
+                      min="0"
+                      className="w-20 text-center"
+                    />
+                    <span className="text-xs text-muted-foreground w-14">
+                      {fmtDuration(allowance.totalMinutes || 0)}
+                    </span>
+                  </>
+                ) : (
+                  <>
+                    <Input
+                      type="number"
+                      value={allowance.totalDays}
+                      onChange={(e) =>
+                        update(allowance.id, {
+                          totalDays: Math.max(0, parseFloat(e.target.value) || 0),
+                        })
+                      }
+                      step="0.5"
+                      min="0"
+                      max="365"
+                      className="w-20 text-center"
+                    />
+                    <span className="text-xs text-muted-foreground">days</span>
+                  </>
+                )}
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => onChange(allowances.filter((a) => a.id !== allowance.id))}
+                  className="text-muted-foreground hover:text-destructive"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+
+              <div className="flex items-center gap-2">
+                <Input
+                  type="date"
+                  value={allowance.periodStart}
+                  onChange={(e) => update(allowance.id, { periodStart: e.target.value })}
+                  className="flex-1"
+                />
+                <span className="text-muted-foreground">—</span>
+                <Input
+                  type="date"
+                  value={allowance.periodEnd}
+                  onChange={(e) => update(allowance.id, { periodEnd: e.target.value })}
+                  className="flex-1"
+                />
+              </div>
+
+              <div className="flex flex-wrap gap-2">
+                {UNIT_OPTIONS.map(({ value, label }) => (
+                  <Button
+                    key={value}
+                    variant={(allowance.unit || "days") === value ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => {
+                      if ((allowance.unit || "days") === value) return;
+                      // A carry-over limit in days means nothing in hours, and the other way round
+                      update(allowance.id, { unit: value, maxCarryOver: null });
+                    }}
+                  >
+                    {label}
+                  </Button>
+                ))}
+                <Button
+                  variant={allowance.renewsYearly ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => update(allowance.id, { renewsYearly: !allowance.renewsYearly })}
+                >
+                  Renews yearly
+                </Button>
+                {ACCRUAL_OPTIONS.map(({ value, label }) => (
+                  <Button
+                    key={value}
+                    variant={(allowance.accrual || "upfront") === value ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => update(allowance.id, { accrual: value })}
+                  >
+                    {label}
+                  </Button>
+                ))}
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-xs text-muted-foreground mb-2">Joined on</label>
+                  <Input
+                    type="date"
+                    value={allowance.employmentStart || ""}
+                    onChange={(e) =>
+                      update(allowance.id, { employmentStart: e.target.value || null })
+                    }
+                  />
+                </div>
+                {allowance.renewsYearly && (
+                  <div>
+                    <label className="block text-xs text-muted-foreground mb-2">
+                      Max carry over ({allowance.unit === "hours" ? "h" : "days"})
+                    </label>
+                    <Input
+                      type="number"
+                      value={
+                        allowance.maxCarryOver == null
+                          ? ""
+                          : allowance.unit === "hours"
+                            ? allowance.maxCarryOver / 60
+                            : allowance.maxCarryOver
+                      }
+                      onChange={(e) =>
+                        update(allowance.id, {
+                          maxCarryOver: parseCarryOver(e.target.value, allowance),
+                        })
+                      }
+                      placeholder="None"
+                      step="0.5"
+                      min="0"
+                    />
+                  </div>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-xs text-muted-foreground mb-2">Used by</label>
+                <div className="flex flex-wrap gap-1">
+                  {linkableTypes.map(({ type, label }) => (
+                    <Button
+                      key={type}
+                      variant={allowance.dayTypes.includes(type) ? "default" : "outline"}
+                      size="sm"
+                      onClick={() => toggleDayType(allowance, type)}
+                    >
+                      {label}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        {suggestions.map((suggestion) => (
+          <Button
+            key={suggestion.name}
+            variant="outline"
+            size="sm"
+            onClick={() =>
+              onChange([...allowances, createLeaveAllowance(suggestion.name, suggestion.dayTypes)])
+            }
+          >
+            + {suggestion.name}
+          </Button>
+        ))}
+        <Button
+          variant="outline"
+          size="sm"
+          className="border-dashed"
+          onClick={() => onChange([...allowances, createLeaveAllowance("New allowance", [])])}
+        >
+          + Custom
+        </Button>
+      </div>
+
+      <p className="text-xs text-muted-foreground mt-2">
+        Days marked with a linked day type within the period are subtracted automatically. Half days
+        use half a day; in hours, a day uses the hours expected unless you enter its own. Joining
+        partway through a period pro-rates its entitlement.
+      </p>
+    </div>
+  );
+}
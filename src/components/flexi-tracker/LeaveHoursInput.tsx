@@ -0,0 +1,47 @@
+import { useState, type KeyboardEvent } from "react";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+
+interface LeaveHoursInputProps {
+  value: number; // minutes
+  onChange: (value: number) => void;
+  className?: string;
+}
+
+// Leave taken on a day, edited in decimal hours
+export function LeaveHoursInput({ value, onChange, className }: LeaveHoursInputProps) {
+  // null = not editing, use prop value; string = editing, use local value
+  const [local, setLocal] = useState<string | null>(null);
+  const toHours = (mins: number) => parseFloat((mins / 60).toFixed(2)).toString();
+  const displayValue = local ?? toHours(value);
+
+  const handleFocus = () => setLocal(toHours(value));
+
+  const handleBlur = () => {
+    const num = parseFloat(local || "0");
+    const valid = isNaN(num) ? 0 : Math.min(24, Math.max(0, num));
+    onChange(Math.round(valid * 60));
+    setLocal(null);
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter") {
+      e.currentTarget.blur();
+    }
+  };
+
+  return (
+    <div className={cn("flex items-center justify-center gap-1", className)}>
+      <Input
+        type="text"
+        value={displayValue}
+        onChange={(e) => setLocal(e.target.value.replace(/[^0-9.]/g, ""))}
+        onFocus={handleFocus}
+        onBlur={handleBlur}
+        onKeyDown={handleKeyDown}
+        className="w-12 bg-transparent text-center text-sm font-mono border-0 shadow-none h-auto px-1 py-0.5 focus:bg-muted/50"
+      />
+      <span className="text-xs text-muted-foreground">h leave</span>
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+import { useEffect, useState } from "react";
+import { Card } from "@/components/ui/card";
+import { DoorOpen } from "lucide-react";
+import type { DayEntry, PublicHoliday, Settings } from "@/types/flexi-tracker";
+import { findLeaveTime, formatDuration, formatDurationDecimal } from "@/lib/flexi-tracker-utils";
+
+interface LeaveTimesCardProps {
+  entry: DayEntry;
+  date: Date;
+  daySettings: Settings;
+  publicHolidays?: PublicHoliday[];
+  typicalBreak: number;
+  // Balance the live day has to reach for the week, and for the overall flexi balance, to be even
+  weekTarget: number;
+  balanceTarget: number;
+  shiftHeld: boolean;
+}
+
+const formatLeaveTime = (mins: number | null, now: Date, date: Date): string => {
+  if (mins === null) return "—";
+  const at = new Date(date.getFullYear(), date.getMonth(), date.getDate(), 0, mins);
+  if (at <= now) return "now";
+  const time = `${at.getHours().toString().padStart(2, "0")}:${at.getMinutes().toString().padStart(2, "0")}`;
+  return at.getDate() === now.getDate() ? time : `${time} +1`;
+};
+
+export function LeaveTimesCard({
+  entry,
+  date,
+  daySettings,
+  publicHolidays,
+  typicalBreak,
+  weekTarget,
+  balanceTarget,
+  shiftHeld,
+}: LeaveTimesCardProps) {
+  const [now, setNow] = useState(new Date());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 1000 * 30);
+    return () => clearInterval(interval);
+  }, []);
+
+  const fmtDuration = shiftHeld ? formatDurationDecimal : formatDuration;
+  const leaveAt = (target: number) =>
+    formatLeaveTime(
+      findLeaveTime(entry, date, now, target, daySettings, publicHolidays, typicalBreak),
+      now,
+      date
+    );
+
+  const targets = [
+    { label: "Day done", value: leaveAt(0) },
+    { label: "Week even", value: leaveAt(weekTarget) },
+    { label: "Flexi at zero", value: leaveAt(balanceTarget) },
+  ];
+
+  return (
+    <Card className="p-4 mb-4 gap-2">
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <DoorOpen className="h-4 w-4" />
+        Leave at
+      </div>
+      <div className="grid grid-cols-3 gap-2 text-center">
+        {targets.map(({ label, value }) => (
+          <div key={label}>
+            <div className="text-xl font-semibold">{value}</div>
+            <div className="text-xs text-muted-foreground">{label}</div>
+          </div>
+        ))}
+      </div>
+      {typicalBreak > 0 && (
+        <p className="text-xs text-muted-foreground text-center">
+          Allowing for your typical {fmtDuration(typicalBreak)} break
+        </p>
+      )}
+    </Card>
+  );
+}
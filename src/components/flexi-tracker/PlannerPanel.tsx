@@ -0,0 +1,235 @@
+import { useMemo, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { AlertTriangle, Trash2 } from "lucide-react";
+import type { AppState, BuiltInDayType, DayEntry, DayType } from "@/types/flexi-tracker";
+import {
+  DAY_TYPES,
+  calculateProjection,
+  findPlanOverdrafts,
+  formatLeaveAmount,
+  formatMinutes,
+  formatMinutesDecimal,
+  formatShortDate,
+  getDateStr,
+  getDayTypeInfo,
+  getWorkingDatesBetween,
+  parseDateStr,
+} from "@/lib/flexi-tracker-utils";
+import { cn } from "@/lib/utils";
+import { DayTypeIcon } from "./DayTypeIcon";
+
+interface PlannerPanelProps {
+  open: boolean;
+  state: AppState;
+  shiftHeld: boolean;
+  onChange: (plannedEntries: Record<string, DayEntry>) => void;
+  onClose: () => void;
+}
+
+const PLANNABLE_BUILT_IN_TYPES: BuiltInDayType[] = [
+  "holiday",
+  "holiday-half",
+  "flexi",
+  "flexi-half",
+  "toil",
+  "toil-half",
+];
+
+export function PlannerPanel({ open, state, shiftHeld, onChange, onClose }: PlannerPanelProps) {
+  const today = getDateStr(new Date());
+  const [from, setFrom] = useState(today);
+  const [to, setTo] = useState("");
+  const [dayType, setDayType] = useState<DayType>("holiday");
+  const [projectTo, setProjectTo] = useState(`${today.slice(0, 4)}-12-31`);
+
+  const fmtMinutes = shiftHeld ? formatMinutesDecimal : formatMinutes;
+  const customDayTypes = state.settings.customDayTypes;
+  const plannedEntries = state.plannedEntries || {};
+
+  const plannableTypes: { type: DayType; label: string; icon: string | null }[] = [
+    ...PLANNABLE_BUILT_IN_TYPES.map((type) => ({
+      type,
+      label: DAY_TYPES[type].label,
+      icon: DAY_TYPES[type].icon,
+    })),
+    ...(customDayTypes || []).map((t) => ({ type: t.id, label: t.label, icon: t.icon })),
+  ];
+
+  // Past plans are left out; once a day has happened its actual entry counts
+  const upcoming = Object.entries(plannedEntries)
+    .filter(([date]) => date >= today)
+    .sort(([a], [b]) => a.localeCompare(b));
+
+  const projection = useMemo(
+    () => (projectTo ? calculateProjection(state, projectTo) : null),
+    [state, projectTo]
+  );
+  const overdrafts = useMemo(() => findPlanOverdrafts(state), [state]);
+
+  const handleAdd = () => {
+    if (!from || from < today) return;
+    const dates = getWorkingDatesBetween(state, from, to && to > from ? to : from);
+    if (dates.length === 0) return;
+    const next = { ...plannedEntries };
+    dates.forEach((date) => {
+      next[date] = { dayType };
+    });
+    onChange(next);
+    setTo("");
+  };
+
+  const handleRemove = (date: string) => {
+    const next = { ...plannedEntries };
+    delete next[date];
+    onChange(next);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Leave Planner</DialogTitle>
+        </DialogHeader>
+
+        <Card className="p-4 space-y-3">
+          <div className="flex items-center gap-2">
+            <Input
+              type="date"
+              value={from}
+              min={today}
+              onChange={(e) => setFrom(e.target.value)}
+              className="flex-1"
+            />
+            <span className="text-muted-foreground">—</span>
+            <Input
+              type="date"
+              value={to}
+              min={from}
+              onChange={(e) => setTo(e.target.value)}
+              className="flex-1"
+            />
+          </div>
+          <div className="flex flex-wrap gap-1">
+            {plannableTypes.map(({ type, label, icon }) => (
+              <Button
+                key={type}
+                variant={dayType === type ? "default" : "outline"}
+                size="sm"
+                onClick={() => setDayType(type)}
+              >
+                {icon && <DayTypeIcon type={icon} />}
+                {label}
+              </Button>
+            ))}
+          </div>
+          <Button className="w-full" onClick={handleAdd} disabled={!from || from < today}>
+            Plan
+          </Button>
+          <p className="text-xs text-muted-foreground">
+            Planned days don't count until they happen. A range covers its working days only.
+          </p>
+        </Card>
+
+        {overdrafts.length > 0 && (
+          <div className="space-y-1 rounded-md border border-amber-300 bg-amber-50 p-3 text-xs text-amber-800 dark:border-amber-700 dark:bg-amber-950 dark:text-amber-300">
+            {overdrafts.map((o) => (
+              <div key={o.allowanceId} className="flex items-center gap-2">
+                <AlertTriangle className="h-3 w-3 shrink-0" />
+                <span>
+                  {o.name} overdrawn by {formatLeaveAmount(-o.remaining, o.unit, shiftHeld)}
+                  {o.unit !== "hours" && " days"} on {formatShortDate(o.date)}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div>
+          <div className="flex items-center justify-between gap-3 mb-2">
+            <label className="text-sm font-medium">Projected on</label>
+            <Input
+              type="date"
+              value={projectTo}
+              min={today}
+              onChange={(e) => setProjectTo(e.target.value)}
+              className="w-40"
+            />
+          </div>
+          {projection && (
+            <Card className="p-3 gap-2 text-sm">
+              <div className="flex items-center justify-between">
+                <span className="text-muted-foreground">Flexi balance</span>
+                <span
+                  className={cn(
+                    "font-semibold",
+                    projection.flexiBalance > 0 && "text-emerald-600",
+                    projection.flexiBalance < 0 && "text-destructive"
+                  )}
+                >
+                  {fmtMinutes(projection.flexiBalance)}
+                </span>
+              </div>
+              {projection.leave
+                .filter((l) => l.entitlement > 0)
+                .map((l) => (
+                  <div key={l.id} className="flex items-center justify-between">
+                    <span className="text-muted-foreground">{l.name}</span>
+                    <span className={cn("font-semibold", l.remaining < 0 && "text-destructive")}>
+                      {formatLeaveAmount(l.remaining, l.unit, shiftHeld)}
+                      <span className="font-normal text-muted-foreground">
+                        {" "}
+                        / {formatLeaveAmount(l.entitlement, l.unit, shiftHeld)}
+                      </span>
+                    </span>
+                  </div>
+                ))}
+            </Card>
+          )}
+        </div>
+
+        {upcoming.length > 0 ? (
+          <div className="space-y-2">
+            {upcoming.map(([date, entry]) => {
+              const info = getDayTypeInfo(entry.dayType || "normal", customDayTypes);
+              const overdrawn = overdrafts.some((o) => o.date === date);
+              return (
+                <Card key={date} className="flex items-center justify-between p-3 group">
+                  <div className="flex items-center gap-3">
+                    <div className="text-sm font-medium w-24">
+                      {parseDateStr(date).toLocaleDateString(undefined, {
+                        weekday: "short",
+                        day: "numeric",
+                        month: "short",
+                      })}
+                    </div>
+                    <Badge variant="secondary" className={info.color}>
+                      {info.icon && <DayTypeIcon type={info.icon} />}
+                      {info.label}
+                    </Badge>
+                    {overdrawn && <AlertTriangle className="h-4 w-4 text-amber-500" />}
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => handleRemove(date)}
+                    className="opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-destructive"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </Card>
+              );
+            })}
+          </div>
+        ) : (
+          <p className="text-center text-muted-foreground text-sm py-4">
+            Nothing planned yet. Plan time off above to see where your balances will end up.
+          </p>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
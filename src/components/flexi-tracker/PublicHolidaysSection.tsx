@@ -0,0 +1,144 @@
+import { useRef, useState, type ChangeEvent } from "react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { FileUp, Landmark, Trash2 } from "lucide-react";
+import type { PublicHoliday } from "@/types/flexi-tracker";
+import { getDateStr, parseDateStr } from "@/lib/flexi-tracker-utils";
+import {
+  PUBLIC_HOLIDAY_REGIONS,
+  mergePublicHolidays,
+  parseIcsHolidays,
+} from "@/lib/public-holidays";
+
+interface PublicHolidaysSectionProps {
+  holidays: PublicHoliday[];
+  onChange: (holidays: PublicHoliday[]) => void;
+}
+
+function formatHolidayDate(dateStr: string): string {
+  return parseDateStr(dateStr).toLocaleDateString(undefined, {
+    weekday: "short",
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+  });
+}
+
+export function PublicHolidaysSection({ holidays, onChange }: PublicHolidaysSectionProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [showPast, setShowPast] = useState(false);
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+
+  const today = getDateStr(new Date());
+  const upcoming = holidays.filter((h) => h.date >= today);
+  const visible = showPast ? holidays : upcoming;
+
+  const addHolidays = (incoming: PublicHoliday[], source: string) => {
+    onChange(mergePublicHolidays(holidays, incoming));
+    setImportMessage(`Added ${incoming.length} holidays from ${source}`);
+  };
+
+  const handleFileImport = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      const parsed = parseIcsHolidays(event.target?.result as string);
+      if (parsed.length === 0) {
+        setImportMessage("No all-day events found in that file");
+      } else {
+        addHolidays(parsed, file.name);
+      }
+    };
+    reader.readAsText(file);
+    e.target.value = "";
+  };
+
+  return (
+    <div className="pt-4 border-t">
+      <label className="text-sm font-medium flex items-center gap-2 mb-3">
+        <Landmark className="h-4 w-4 text-muted-foreground" />
+        Public Holidays
+      </label>
+
+      <div className="flex flex-wrap gap-2 mb-3">
+        {PUBLIC_HOLIDAY_REGIONS.map((region) => (
+          <Button
+            key={region.id}
+            variant="outline"
+            size="sm"
+            onClick={() => addHolidays(region.holidays, region.label)}
+          >
+            + {region.label}
+          </Button>
+        ))}
+        <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+          <FileUp className="h-4 w-4" />
+          Import .ics
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".ics,text/calendar"
+          onChange={handleFileImport}
+          className="hidden"
+        />
+      </div>
+
+      {importMessage && <p className="text-xs text-muted-foreground mb-3">{importMessage}</p>}
+
+      {visible.length > 0 && (
+        <div className="space-y-1 max-h-64 overflow-y-auto mb-3">
+          {visible.map((holiday) => (
+            <Card key={holiday.date} className="flex items-center justify-between p-2 gap-2 group">
+              <div className="min-w-0">
+                <div className="text-sm font-medium truncate">{holiday.name}</div>
+                <div className="text-xs text-muted-foreground">
+                  {formatHolidayDate(holiday.date)}
+                </div>
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => onChange(holidays.filter((h) => h.date !== holiday.date))}
+                className="opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-destructive"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      {holidays.length > 0 && (
+        <div className="flex items-center justify-between">
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 text-xs text-muted-foreground"
+            onClick={() => setShowPast(!showPast)}
+            disabled={upcoming.length === holidays.length}
+          >
+            {showPast ? "Upcoming only" : `Show past (${holidays.length - upcoming.length})`}
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 text-xs text-muted-foreground hover:text-destructive"
+            onClick={() => {
+              onChange([]);
+              setImportMessage(null);
+            }}
+          >
+            Clear all
+          </Button>
+        </div>
+      )}
+
+      <p className="text-xs text-muted-foreground mt-2">
+        Public holidays count as non-working days with nothing expected, and are not taken from your
+        annual leave.
+      </p>
+    </div>
+  );
+}
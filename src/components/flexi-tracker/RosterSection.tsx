@@ -0,0 +1,147 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card } from "@/components/ui/card";
+import { Minus, Plus, Repeat } from "lucide-react";
+import type { Roster, RosterWeek, Settings } from "@/types/flexi-tracker";
+import { FULL_DAYS, getDateStr, getRosterWeekIndex, getWeekDates } from "@/lib/flexi-tracker-utils";
+import { ExpectedHoursInput } from "./ExpectedHoursInput";
+
+interface RosterSectionProps {
+  settings: Settings;
+  onChange: (settings: Settings) => void;
+}
+
+const MAX_ROSTER_WEEKS = 8;
+
+export function RosterSection({ settings, onChange }: RosterSectionProps) {
+  const roster = settings.roster;
+
+  const setRoster = (next: Roster | null) => onChange({ ...settings, roster: next });
+
+  const updateWeek = (index: number, patch: Partial<RosterWeek>) => {
+    if (!roster) return;
+    setRoster({
+      ...roster,
+      weeks: roster.weeks.map((w, i) => (i === index ? { ...w, ...patch } : w)),
+    });
+  };
+
+  const currentPattern = (): RosterWeek => ({
+    workingDays: settings.workingDays,
+    expectedMinutesPerDay: settings.expectedMinutesPerDay,
+    expectedMinutesByWeekday: settings.expectedMinutesByWeekday ?? null,
+  });
+
+  const enableRoster = () => {
+    const weekStart = getWeekDates(new Date(), settings.weekStartsOn)[0];
+    setRoster({ anchorDate: getDateStr(weekStart), weeks: [currentPattern(), currentPattern()] });
+  };
+
+  const setWeekCount = (count: number) => {
+    if (!roster || count < 1 || count > MAX_ROSTER_WEEKS) return;
+    const weeks = roster.weeks.slice(0, count);
+    while (weeks.length < count) weeks.push({ ...weeks[weeks.length - 1] });
+    setRoster({ ...roster, weeks });
+  };
+
+  return (
+    <div className="pt-4 border-t">
+      <div className="flex items-center justify-between mb-3">
+        <label className="text-sm font-medium flex items-center gap-2">
+          <Repeat className="h-4 w-4 text-muted-foreground" />
+          Rotating Roster
+        </label>
+        {!roster && (
+          <Button variant="outline" size="sm" onClick={enableRoster}>
+            Enable
+          </Button>
+        )}
+      </div>
+
+      {!roster && (
+        <p className="text-xs text-muted-foreground">
+          Use a repeating pattern of weeks when your working days change from week to week.
+        </p>
+      )}
+
+      {roster && (
+        <div className="space-y-3">
+          <div className="flex items-end gap-3">
+            <div className="flex-1">
+              <label className="block text-xs text-muted-foreground mb-2">Week 1 starts on</label>
+              <Input
+                type="date"
+                value={roster.anchorDate}
+                onChange={(e) =>
+                  e.target.value && setRoster({ ...roster, anchorDate: e.target.value })
+                }
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-muted-foreground mb-2">Weeks</label>
+              <div className="flex items-center gap-1">
+                <Button
+                  variant="outline"
+                  size="icon"
+                  onClick={() => setWeekCount(roster.weeks.length - 1)}
+                  disabled={roster.weeks.length <= 1}
+                >
+                  <Minus className="h-4 w-4" />
+                </Button>
+                <span className="w-6 text-center text-sm">{roster.weeks.length}</span>
+                <Button
+                  variant="outline"
+                  size="icon"
+                  onClick={() => setWeekCount(roster.weeks.length + 1)}
+                  disabled={roster.weeks.length >= MAX_ROSTER_WEEKS}
+                >
+                  <Plus className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          </div>
+
+          <p className="text-xs text-muted-foreground">
+            This week is week {getRosterWeekIndex(roster, new Date()) + 1} of {roster.weeks.length}.
+          </p>
+
+          {roster.weeks.map((week, index) => (
+            <Card key={index} className="p-3 space-y-2 gap-0">
+              <div className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+                Week {index + 1}
+              </div>
+              <div className="flex flex-wrap gap-1">
+                {FULL_DAYS.map((day, i) => (
+                  <Button
+                    key={day}
+                    variant={week.workingDays.includes(i) ? "default" : "outline"}
+                    size="sm"
+                    onClick={() =>
+                      updateWeek(index, {
+                        workingDays: week.workingDays.includes(i)
+                          ? week.workingDays.filter((d) => d !== i)
+                          : [...week.workingDays, i].sort(),
+                      })
+                    }
+                  >
+                    {day.slice(0, 3)}
+                  </Button>
+                ))}
+              </div>
+              <ExpectedHoursInput value={week} onChange={(patch) => updateWeek(index, patch)} />
+            </Card>
+          ))}
+
+          <Button
+            variant="ghost"
+            size="sm"
+            className="text-muted-foreground"
+            onClick={() => setRoster(null)}
+          >
+            Disable roster
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
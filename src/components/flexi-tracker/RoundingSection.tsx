@@ -0,0 +1,149 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Timer } from "lucide-react";
+import type { RoundingMode, RoundingRule, Settings, TimeRounding } from "@/types/flexi-tracker";
+
+interface RoundingSectionProps {
+  settings: Settings;
+  onChange: (settings: Settings) => void;
+}
+
+const MODES: { mode: RoundingMode; label: string }[] = [
+  { mode: "nearest", label: "Nearest" },
+  { mode: "up", label: "Up" },
+  { mode: "down", label: "Down" },
+];
+
+const UNITS = [5, 6, 10, 15];
+
+const DEFAULT_RULE: RoundingRule = { mode: "nearest", unit: 15, graceMinutes: 0 };
+
+export function RoundingSection({ settings, onChange }: RoundingSectionProps) {
+  const rounding = settings.rounding;
+
+  const setRounding = (next: TimeRounding | null) => onChange({ ...settings, rounding: next });
+
+  const update = (patch: Partial<TimeRounding>) => {
+    if (rounding) setRounding({ ...rounding, ...patch });
+  };
+
+  const enable = () =>
+    setRounding({ start: { ...DEFAULT_RULE }, end: { ...DEFAULT_RULE }, applyToManual: false });
+
+  const renderEdge = (edge: "start" | "end", label: string) => {
+    const rule = rounding?.[edge] ?? null;
+    const updateRule = (patch: Partial<RoundingRule>) => {
+      if (rule) update({ [edge]: { ...rule, ...patch } });
+    };
+
+    return (
+      <div>
+        <label className="block text-xs text-muted-foreground mb-2">{label}</label>
+        <div className="flex flex-wrap gap-1 mb-2">
+          <Button
+            variant={!rule ? "default" : "outline"}
+            size="sm"
+            onClick={() => update({ [edge]: null })}
+          >
+            Off
+          </Button>
+          {MODES.map(({ mode, label }) => (
+            <Button
+              key={mode}
+              variant={rule?.mode === mode ? "default" : "outline"}
+              size="sm"
+              onClick={() =>
+                rule ? updateRule({ mode }) : update({ [edge]: { ...DEFAULT_RULE, mode } })
+              }
+            >
+              {label}
+            </Button>
+          ))}
+        </div>
+        {rule && (
+          <div className="flex items-center gap-2 text-sm">
+            <span className="text-muted-foreground">to</span>
+            {UNITS.map((unit) => (
+              <Button
+                key={unit}
+                variant={rule.unit === unit ? "default" : "outline"}
+                size="sm"
+                onClick={() => updateRule({ unit })}
+              >
+                {unit}
+              </Button>
+            ))}
+            <span className="text-muted-foreground">min, grace</span>
+            <Input
+              type="number"
+              value={rule.graceMinutes}
+              onChange={(e) =>
+                updateRule({
+                  graceMinutes: Math.min(
+                    rule.unit - 1,
+                    Math.max(0, parseInt(e.target.value, 10) || 0)
+                  ),
+                })
+              }
+              min="0"
+              max={rule.unit - 1}
+              className="w-16 text-center"
+            />
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="pt-4 border-t">
+      <div className="flex items-center justify-between mb-3">
+        <label className="text-sm font-medium flex items-center gap-2">
+          <Timer className="h-4 w-4 text-muted-foreground" />
+          Clock Rounding
+        </label>
+        {!rounding && (
+          <Button variant="outline" size="sm" onClick={enable}>
+            Enable
+          </Button>
+        )}
+      </div>
+
+      {!rounding && (
+        <p className="text-xs text-muted-foreground">
+          Round clock-in and clock-out times the way your payroll does.
+        </p>
+      )}
+
+      {rounding && (
+        <div className="space-y-3">
+          {renderEdge("start", "Start times")}
+          {renderEdge("end", "End times")}
+
+          <Button
+            variant={rounding.applyToManual ? "default" : "outline"}
+            size="sm"
+            onClick={() => update({ applyToManual: !rounding.applyToManual })}
+          >
+            Also round typed times
+          </Button>
+
+          <p className="text-xs text-muted-foreground">
+            Clocking in and out records the rounded time. A start within the grace minutes after a
+            boundary rounds back to it, and an end within them before one rounds forward. Typed
+            times are kept as entered but count rounded when that option is on.
+          </p>
+
+          <Button
+            variant="ghost"
+            size="sm"
+            className="text-muted-foreground"
+            onClick={() => setRounding(null)}
+          >
+            Disable rounding
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
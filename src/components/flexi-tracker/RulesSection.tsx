@@ -0,0 +1,162 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ShieldCheck } from "lucide-react";
+import type { ComplianceRules, Settings } from "@/types/flexi-tracker";
+
+interface RulesSectionProps {
+  settings: Settings;
+  onChange: (settings: Settings) => void;
+}
+
+// Blank turns a rule off
+const parseHours = (value: string): number | null =>
+  value.trim() === "" ? null : Math.round(Math.max(0, parseFloat(value) || 0) * 60);
+
+export function RulesSection({ settings, onChange }: RulesSectionProps) {
+  const rules = settings.rules;
+
+  const setRules = (next: ComplianceRules | null) => onChange({ ...settings, rules: next });
+
+  const update = (patch: Partial<ComplianceRules>) => {
+    if (rules) setRules({ ...rules, ...patch });
+  };
+
+  const enable = () =>
+    setRules({
+      coreHours: { start: "10:00", end: "16:00" },
+      minBreak: { afterMinutes: 360, breakMinutes: 30 },
+      maxDailyMinutes: 600,
+      capAtMax: false,
+    });
+
+  return (
+    <div className="pt-4 border-t">
+      <div className="flex items-center justify-between mb-3">
+        <label className="text-sm font-medium flex items-center gap-2">
+          <ShieldCheck className="h-4 w-4 text-muted-foreground" />
+          Working Time Rules
+        </label>
+        {!rules && (
+          <Button variant="outline" size="sm" onClick={enable}>
+            Enable
+          </Button>
+        )}
+      </div>
+
+      {!rules && (
+        <p className="text-xs text-muted-foreground">
+          Flag days that miss core hours, skip a required break or go over a daily limit.
+        </p>
+      )}
+
+      {rules && (
+        <div className="space-y-3">
+          <div>
+            <label className="block text-xs text-muted-foreground mb-2">Core hours</label>
+            <div className="flex items-center gap-2">
+              <Input
+                type="time"
+                value={rules.coreHours?.start || ""}
+                onChange={(e) =>
+                  update({
+                    coreHours: e.target.value
+                      ? { start: e.target.value, end: rules.coreHours?.end || "16:00" }
+                      : null,
+                  })
+                }
+                className="flex-1"
+              />
+              <span className="text-muted-foreground">—</span>
+              <Input
+                type="time"
+                value={rules.coreHours?.end || ""}
+                onChange={(e) =>
+                  update({
+                    coreHours: e.target.value
+                      ? { start: rules.coreHours?.start || "10:00", end: e.target.value }
+                      : null,
+                  })
+                }
+                className="flex-1"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs text-muted-foreground mb-2">Break needed (min)</label>
+              <Input
+                type="number"
+                value={rules.minBreak?.breakMinutes ?? ""}
+                onChange={(e) =>
+                  update({
+                    minBreak:
+                      e.target.value.trim() === ""
+                        ? null
+                        : {
+                            afterMinutes: rules.minBreak?.afterMinutes ?? 360,
+                            breakMinutes: Math.max(0, parseInt(e.target.value, 10) || 0),
+                          },
+                  })
+                }
+                placeholder="Off"
+                min="0"
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-muted-foreground mb-2">After (h)</label>
+              <Input
+                type="number"
+                value={rules.minBreak ? rules.minBreak.afterMinutes / 60 : ""}
+                onChange={(e) => {
+                  const afterMinutes = parseHours(e.target.value);
+                  if (afterMinutes !== null && rules.minBreak) {
+                    update({ minBreak: { ...rules.minBreak, afterMinutes } });
+                  }
+                }}
+                disabled={!rules.minBreak}
+                step="0.5"
+                min="0"
+              />
+            </div>
+          </div>
+
+          <div className="flex items-end gap-3">
+            <div className="flex-1">
+              <label className="block text-xs text-muted-foreground mb-2">Daily maximum (h)</label>
+              <Input
+                type="number"
+                value={rules.maxDailyMinutes === null ? "" : rules.maxDailyMinutes / 60}
+                onChange={(e) => update({ maxDailyMinutes: parseHours(e.target.value) })}
+                placeholder="No limit"
+                step="0.5"
+                min="0"
+              />
+            </div>
+            <Button
+              variant={rules.capAtMax ? "default" : "outline"}
+              size="sm"
+              onClick={() => update({ capAtMax: !rules.capAtMax })}
+              disabled={rules.maxDailyMinutes === null}
+            >
+              Don't credit extra
+            </Button>
+          </div>
+
+          <p className="text-xs text-muted-foreground">
+            Days that break a rule show a warning. Gaps between sessions count towards the break.
+          </p>
+
+          <Button
+            variant="ghost"
+            size="sm"
+            className="text-muted-foreground"
+            onClick={() => setRules(null)}
+          >
+            Disable rules
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
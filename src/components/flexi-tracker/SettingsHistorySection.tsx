@@ -0,0 +1,197 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card } from "@/components/ui/card";
+import { CalendarClock, Trash2 } from "lucide-react";
+import type { ContractSettings, Settings, SettingsChange } from "@/types/flexi-tracker";
+import {
+  FULL_DAYS,
+  formatDuration,
+  getDateStr,
+  getSettingsForDate,
+  getWeeklyTarget,
+  parseDateStr,
+} from "@/lib/flexi-tracker-utils";
+import { cn } from "@/lib/utils";
+import { ExpectedHoursInput } from "./ExpectedHoursInput";
+
+interface SettingsHistorySectionProps {
+  settings: Settings;
+  history: SettingsChange[];
+  onChange: (history: SettingsChange[]) => void;
+}
+
+function formatChangeDate(dateStr: string): string {
+  return parseDateStr(dateStr).toLocaleDateString(undefined, {
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+  });
+}
+
+function describeChange(change: SettingsChange): string {
+  const parts: string[] = [];
+  const { workingDays, expectedMinutesPerDay, expectedMinutesByWeekday, nonWorkingDayRate } =
+    change.settings;
+  if (change.settings.roster) {
+    parts.push(`${change.settings.roster.weeks.length}-week roster`);
+  } else if (expectedMinutesByWeekday && workingDays && expectedMinutesPerDay !== undefined) {
+    const weekly = getWeeklyTarget({
+      workingDays,
+      expectedMinutesPerDay,
+      expectedMinutesByWeekday,
+    });
+    parts.push(`${formatDuration(weekly)}/week`);
+  } else if (expectedMinutesPerDay !== undefined) {
+    parts.push(`${formatDuration(expectedMinutesPerDay)}/day`);
+  }
+  if (workingDays) parts.push(workingDays.map((d) => FULL_DAYS[d].slice(0, 3)).join(", "));
+  if (nonWorkingDayRate !== undefined && nonWorkingDayRate !== 1) {
+    parts.push(`${nonWorkingDayRate}x OT`);
+  }
+  return parts.join(" · ");
+}
+
+export function SettingsHistorySection({
+  settings,
+  history,
+  onChange,
+}: SettingsHistorySectionProps) {
+  const [draft, setDraft] = useState<(ContractSettings & { effectiveFrom: string }) | null>(null);
+
+  const sorted = [...history].sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom));
+
+  // Start from whatever contract applies on the chosen date
+  const draftFromDate = (effectiveFrom: string) => {
+    const current = getSettingsForDate(settings, history, effectiveFrom);
+    setDraft({
+      effectiveFrom,
+      workingDays: current.workingDays,
+      expectedMinutesPerDay: current.expectedMinutesPerDay,
+      expectedMinutesByWeekday: current.expectedMinutesByWeekday ?? null,
+      roster: current.roster ?? null,
+      nonWorkingDayRate: current.nonWorkingDayRate,
+    });
+  };
+
+  const handleSave = () => {
+    if (!draft || !draft.effectiveFrom) return;
+    const { effectiveFrom, ...contract } = draft;
+    // One change per date - scheduling again on the same date replaces it
+    const others = history.filter((c) => c.effectiveFrom !== effectiveFrom);
+    onChange([...others, { id: Date.now().toString(), effectiveFrom, settings: contract }]);
+    setDraft(null);
+  };
+
+  return (
+    <div className="pt-4 border-t">
+      <label className="text-sm font-medium flex items-center gap-2 mb-3">
+        <CalendarClock className="h-4 w-4 text-muted-foreground" />
+        Contract Changes
+      </label>
+
+      {sorted.length > 0 && (
+        <div className="space-y-2 mb-3">
+          {sorted.map((change) => (
+            <Card key={change.id} className="flex items-center justify-between p-3 gap-2 group">
+              <div>
+                <div className="text-sm font-medium">
+                  From {formatChangeDate(change.effectiveFrom)}
+                </div>
+                <div className="text-xs text-muted-foreground">{describeChange(change)}</div>
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => onChange(history.filter((c) => c.id !== change.id))}
+                className="opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-destructive"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      {!draft ? (
+        <Button
+          variant="outline"
+          size="sm"
+          className="w-full border-dashed"
+          onClick={() => draftFromDate(getDateStr(new Date()))}
+        >
+          + Schedule Change
+        </Button>
+      ) : (
+        <Card className="p-4 space-y-3">
+          <div>
+            <label className="block text-xs text-muted-foreground mb-2">Effective from</label>
+            <Input
+              type="date"
+              value={draft.effectiveFrom}
+              onChange={(e) => draftFromDate(e.target.value)}
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-muted-foreground mb-2">Working days</label>
+            <div className="flex flex-wrap gap-1">
+              {FULL_DAYS.map((day, i) => (
+                <Button
+                  key={day}
+                  variant={draft.workingDays.includes(i) ? "default" : "outline"}
+                  size="sm"
+                  onClick={() =>
+                    setDraft({
+                      ...draft,
+                      workingDays: draft.workingDays.includes(i)
+                        ? draft.workingDays.filter((d) => d !== i)
+                        : [...draft.workingDays, i].sort(),
+                    })
+                  }
+                >
+                  {day.slice(0, 3)}
+                </Button>
+              ))}
+            </div>
+          </div>
+          <div>
+            <label className="block text-xs text-muted-foreground mb-2">Hours per day</label>
+            <ExpectedHoursInput
+              value={draft}
+              onChange={(patch) => setDraft({ ...draft, ...patch })}
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-muted-foreground mb-2">Overtime rate</label>
+            <div className="flex gap-2">
+              {[1, 1.5, 2].map((v) => (
+                <Button
+                  key={v}
+                  variant={draft.nonWorkingDayRate === v ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => setDraft({ ...draft, nonWorkingDayRate: v })}
+                  className={cn(draft.nonWorkingDayRate === v && "bg-amber-500 hover:bg-amber-600")}
+                >
+                  {v}x
+                </Button>
+              ))}
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <Button className="flex-1" onClick={handleSave} disabled={!draft.effectiveFrom}>
+              Save
+            </Button>
+            <Button variant="ghost" onClick={() => setDraft(null)}>
+              Cancel
+            </Button>
+          </div>
+        </Card>
+      )}
+
+      <p className="text-xs text-muted-foreground mt-2">
+        Schedule a new working pattern from a past or future date. Days before it keep the hours
+        that applied at the time.
+      </p>
+    </div>
+  );
+}
@@ -11,19 +11,40 @@ import {
   ClipboardPaste,
   QrCode,
   ScanLine,
-  Palmtree,
 } from "lucide-react";
-import type { Settings, AppState, NonWorkingDayDisplay, LeaveBalance } from "@/types/flexi-tracker";
-import { FULL_DAYS, formatDuration, getDefaultLeaveBalance } from "@/lib/flexi-tracker-utils";
+import type {
+  Settings,
+  AppState,
+  NonWorkingDayDisplay,
+  LeaveAllowance,
+  PublicHoliday,
+  SettingsChange,
+} from "@/types/flexi-tracker";
+import { FULL_DAYS, parseDateStr } from "@/lib/flexi-tracker-utils";
 import { cn } from "@/lib/utils";
+import { SettingsHistorySection } from "./SettingsHistorySection";
+import { ExpectedHoursInput } from "./ExpectedHoursInput";
+import { RosterSection } from "./RosterSection";
+import { PublicHolidaysSection } from "./PublicHolidaysSection";
+import { DayTypesSection } from "./DayTypesSection";
+import { SettlementSection } from "./SettlementSection";
+import { RulesSection } from "./RulesSection";
+import { AutoBreakSection } from "./AutoBreakSection";
+import { RoundingSection } from "./RoundingSection";
+import { LeaveAllowancesSection } from "./LeaveAllowancesSection";
 
 interface SettingsPanelProps {
   open: boolean;
   settings: Settings;
-  leaveBalance?: LeaveBalance;
+  settingsHistory: SettingsChange[];
+  publicHolidays: PublicHoliday[];
+  leaveAllowances: LeaveAllowance[];
   appState: AppState;
+  shiftHeld: boolean;
   onChange: (settings: Settings) => void;
-  onLeaveBalanceChange: (leaveBalance: LeaveBalance | undefined) => void;
+  onSettingsHistoryChange: (history: SettingsChange[]) => void;
+  onPublicHolidaysChange: (holidays: PublicHoliday[]) => void;
+  onLeaveAllowancesChange: (allowances: LeaveAllowance[]) => void;
   onImport: (data: AppState) => void;
   onClear: () => void;
   onClose: () => void;
@@ -33,10 +54,15 @@ interface SettingsPanelProps {
 export function SettingsPanel({
   open,
   settings,
-  leaveBalance,
+  settingsHistory,
+  publicHolidays,
+  leaveAllowances,
   appState,
+  shiftHeld,
   onChange,
-  onLeaveBalanceChange,
+  onSettingsHistoryChange,
+  onPublicHolidaysChange,
+  onLeaveAllowancesChange,
   onImport,
   onClear,
   onClose,
@@ -50,6 +76,11 @@ export function SettingsPanel({
   const [importError, setImportError] = useState<string | null>(null);
   const [pendingImportData, setPendingImportData] = useState<Partial<AppState> | null>(null);
 
+  const firstChange = settingsHistory.reduce<string | null>(
+    (first, c) => (first === null || c.effectiveFrom < first ? c.effectiveFrom : first),
+    null
+  );
+
   const handleClearClick = () => {
     setClearStep(1);
   };
@@ -168,32 +199,31 @@ export function SettingsPanel({
                 </Button>
               ))}
             </div>
+            {settings.roster && (
+              <p className="text-xs text-muted-foreground mt-2">
+                Working days and hours come from the rotating roster below.
+              </p>
+            )}
+            {firstChange && (
+              <p className="text-xs text-muted-foreground mt-2">
+                Applies before{" "}
+                {parseDateStr(firstChange).toLocaleDateString(undefined, {
+                  day: "numeric",
+                  month: "short",
+                  year: "numeric",
+                })}
+                . Later dates use the contract changes below.
+              </p>
+            )}
           </div>
 
           {/* Expected Hours */}
           <div>
             <label className="block text-sm font-medium mb-2">Expected Hours Per Day</label>
-            <div className="flex items-center gap-3">
-              <Input
-                type="number"
-                value={settings.expectedMinutesPerDay / 60}
-                onChange={(e) =>
-                  onChange({
-                    ...settings,
-                    expectedMinutesPerDay: Math.max(0, parseFloat(e.target.value) || 0) * 60,
-                  })
-                }
-                step="0.5"
-                min="0"
-                max="24"
-                className="w-24 text-center"
-              />
-              <span className="text-muted-foreground">hours</span>
-            </div>
-            <p className="text-xs text-muted-foreground mt-1">
-              Weekly target:{" "}
-              {formatDuration(settings.expectedMinutesPerDay * settings.workingDays.length)}
-            </p>
+            <ExpectedHoursInput
+              value={settings}
+              onChange={(patch) => onChange({ ...settings, ...patch })}
+            />
           </div>
 
           {/* Week Starts On */}
@@ -216,6 +246,9 @@ export function SettingsPanel({
             </div>
           </div>
 
+          {/* Rotating Roster */}
+          <RosterSection settings={settings} onChange={onChange} />
+
           {/* Non-Working Days Settings */}
           <div className="pt-4 border-t">
             <label className="block text-sm font-medium mb-3">Non-Working Days</label>
@@ -266,93 +299,38 @@ export function SettingsPanel({
             </div>
           </div>
 
-          {/* Annual Leave */}
-          <div className="pt-4 border-t">
-            <div className="flex items-center justify-between mb-3">
-              <label className="text-sm font-medium flex items-center gap-2">
-                <Palmtree className="h-4 w-4 text-sky-500" />
-                Annual Leave
-              </label>
-              {!leaveBalance && (
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={() => onLeaveBalanceChange(getDefaultLeaveBalance())}
-                >
-                  Enable
-                </Button>
-              )}
-            </div>
+          {/* Settlement Periods */}
+          <SettlementSection settings={settings} onChange={onChange} />
 
-            {leaveBalance && (
-              <div className="space-y-3">
-                <div>
-                  <label className="block text-xs text-muted-foreground mb-2">
-                    Allowance (days)
-                  </label>
-                  <Input
-                    type="number"
-                    value={leaveBalance.totalDays}
-                    onChange={(e) =>
-                      onLeaveBalanceChange({
-                        ...leaveBalance,
-                        totalDays: Math.max(0, parseFloat(e.target.value) || 0),
-                      })
-                    }
-                    step="0.5"
-                    min="0"
-                    max="365"
-                    className="w-24 text-center"
-                  />
-                </div>
+          {/* Working Time Rules */}
+          <RulesSection settings={settings} onChange={onChange} />
 
-                <div>
-                  <label className="block text-xs text-muted-foreground mb-2">Period</label>
-                  <div className="flex items-center gap-2">
-                    <Input
-                      type="date"
-                      value={leaveBalance.periodStart}
-                      onChange={(e) =>
-                        onLeaveBalanceChange({
-                          ...leaveBalance,
-                          periodStart: e.target.value,
-                        })
-                      }
-                      className="flex-1"
-                    />
-                    <span className="text-muted-foreground">—</span>
-                    <Input
-                      type="date"
-                      value={leaveBalance.periodEnd}
-                      onChange={(e) =>
-                        onLeaveBalanceChange({
-                          ...leaveBalance,
-                          periodEnd: e.target.value,
-                        })
-                      }
-                      className="flex-1"
-                    />
-                  </div>
-                </div>
+          {/* Automatic Breaks */}
+          <AutoBreakSection settings={settings} onChange={onChange} />
 
-                <Button
-                  variant="ghost"
-                  size="sm"
-                  className="text-muted-foreground"
-                  onClick={() => onLeaveBalanceChange(undefined)}
-                >
-                  Disable leave tracking
-                </Button>
-              </div>
-            )}
+          {/* Clock Rounding */}
+          <RoundingSection settings={settings} onChange={onChange} />
 
-            {!leaveBalance && (
-              <p className="text-xs text-muted-foreground">
-                Track annual leave by enabling this feature. Holiday entries within your leave
-                period will be subtracted automatically.
-              </p>
-            )}
-          </div>
+          {/* Day Types */}
+          <DayTypesSection settings={settings} onChange={onChange} />
+
+          {/* Contract Changes */}
+          <SettingsHistorySection
+            settings={settings}
+            history={settingsHistory}
+            onChange={onSettingsHistoryChange}
+          />
+
+          {/* Public Holidays */}
+          <PublicHolidaysSection holidays={publicHolidays} onChange={onPublicHolidaysChange} />
+
+          {/* Leave Allowances */}
+          <LeaveAllowancesSection
+            allowances={leaveAllowances}
+            customDayTypes={settings.customDayTypes}
+            shiftHeld={shiftHeld}
+            onChange={onLeaveAllowancesChange}
+          />
 
           {/* Sync with Another Device */}
           <div className="pt-4 border-t">
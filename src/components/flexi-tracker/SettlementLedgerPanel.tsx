@@ -0,0 +1,117 @@
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { AlertTriangle } from "lucide-react";
+import type { SettlementPeriod, SettlementSettings } from "@/types/flexi-tracker";
+import {
+  formatMinutes,
+  formatMinutesDecimal,
+  formatShortDate,
+  getDateStr,
+  parseDateStr,
+} from "@/lib/flexi-tracker-utils";
+import { cn } from "@/lib/utils";
+
+interface SettlementLedgerPanelProps {
+  open: boolean;
+  ledger: SettlementPeriod[];
+  settlement: SettlementSettings;
+  shiftHeld: boolean;
+  onClose: () => void;
+}
+
+export function SettlementLedgerPanel({
+  open,
+  ledger,
+  settlement,
+  shiftHeld,
+  onClose,
+}: SettlementLedgerPanelProps) {
+  const fmtMinutes = shiftHeld ? formatMinutesDecimal : formatMinutes;
+  const periods = [...ledger].reverse();
+  const today = getDateStr(new Date());
+
+  const limits = [
+    settlement.maxCarryOver !== null && `carry over up to ${fmtMinutes(settlement.maxCarryOver)}`,
+    settlement.maxDeficit !== null &&
+      `${settlement.deficitAction === "forfeit" ? "write off" : "flag"} deficits beyond ${fmtMinutes(-settlement.maxDeficit)}`,
+  ].filter(Boolean);
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Settlement Ledger</DialogTitle>
+        </DialogHeader>
+
+        <p className="text-xs text-muted-foreground">
+          Settles every {settlement.periodLength} {settlement.periodUnit}
+          {limits.length > 0 && `; ${limits.join(", ")}`}.
+        </p>
+
+        <div className="space-y-2">
+          {periods.map((period) => (
+            <Card
+              key={period.start}
+              className={cn(
+                "p-3 gap-2",
+                period.flagged && "border-amber-300 dark:border-amber-700"
+              )}
+            >
+              <div className="flex items-center justify-between">
+                <div className="text-sm font-medium">
+                  {formatShortDate(period.start)} – {formatShortDate(period.end)}
+                  <span className="text-muted-foreground font-normal">
+                    {" "}
+                    {parseDateStr(period.end).getFullYear()}
+                  </span>
+                </div>
+                {period.start <= today && today <= period.end && (
+                  <Badge variant="secondary">Current</Badge>
+                )}
+                {period.flagged && (
+                  <Badge
+                    variant="secondary"
+                    className="bg-amber-100 text-amber-800 dark:bg-amber-950 dark:text-amber-300"
+                  >
+                    <AlertTriangle className="h-3 w-3" />
+                    Over limit
+                  </Badge>
+                )}
+              </div>
+              <div className="grid grid-cols-4 gap-2 text-xs">
+                <div>
+                  <div className="text-muted-foreground">Opening</div>
+                  <div>{fmtMinutes(period.opening)}</div>
+                </div>
+                <div>
+                  <div className="text-muted-foreground">Movement</div>
+                  <div
+                    className={cn(
+                      period.movement > 0 && "text-emerald-600",
+                      period.movement < 0 && "text-destructive"
+                    )}
+                  >
+                    {fmtMinutes(period.movement)}
+                  </div>
+                </div>
+                <div>
+                  <div className="text-muted-foreground">
+                    {period.forfeited < 0 ? "Written off" : "Forfeited"}
+                  </div>
+                  <div className={cn(period.forfeited !== 0 && "text-amber-600")}>
+                    {period.forfeited !== 0 ? fmtMinutes(period.forfeited) : "-"}
+                  </div>
+                </div>
+                <div>
+                  <div className="text-muted-foreground">Closing</div>
+                  <div className="font-medium">{fmtMinutes(period.closing)}</div>
+                </div>
+              </div>
+            </Card>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,163 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Scale } from "lucide-react";
+import type { Settings, SettlementSettings } from "@/types/flexi-tracker";
+import { getDateStr, getWeekDates } from "@/lib/flexi-tracker-utils";
+
+interface SettlementSectionProps {
+  settings: Settings;
+  onChange: (settings: Settings) => void;
+}
+
+// Blank means no limit
+const parseLimit = (value: string): number | null =>
+  value.trim() === "" ? null : Math.round(Math.max(0, parseFloat(value) || 0) * 60);
+
+export function SettlementSection({ settings, onChange }: SettlementSectionProps) {
+  const settlement = settings.settlement;
+
+  const setSettlement = (next: SettlementSettings | null) =>
+    onChange({ ...settings, settlement: next });
+
+  const update = (patch: Partial<SettlementSettings>) => {
+    if (settlement) setSettlement({ ...settlement, ...patch });
+  };
+
+  const enable = () => {
+    const weekStart = getWeekDates(new Date(), settings.weekStartsOn)[0];
+    setSettlement({
+      anchorDate: getDateStr(weekStart),
+      periodLength: 4,
+      periodUnit: "weeks",
+      maxCarryOver: 600,
+      maxDeficit: 600,
+      deficitAction: "flag",
+    });
+  };
+
+  return (
+    <div className="pt-4 border-t">
+      <div className="flex items-center justify-between mb-3">
+        <label className="text-sm font-medium flex items-center gap-2">
+          <Scale className="h-4 w-4 text-muted-foreground" />
+          Settlement Periods
+        </label>
+        {!settlement && (
+          <Button variant="outline" size="sm" onClick={enable}>
+            Enable
+          </Button>
+        )}
+      </div>
+
+      {!settlement && (
+        <p className="text-xs text-muted-foreground">
+          Settle your flexi balance at the end of each period, with limits on how much carries over.
+        </p>
+      )}
+
+      {settlement && (
+        <div className="space-y-3">
+          <div className="flex items-end gap-3">
+            <div className="flex-1">
+              <label className="block text-xs text-muted-foreground mb-2">
+                First period starts
+              </label>
+              <Input
+                type="date"
+                value={settlement.anchorDate}
+                onChange={(e) => e.target.value && update({ anchorDate: e.target.value })}
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-muted-foreground mb-2">Every</label>
+              <Input
+                type="number"
+                value={settlement.periodLength}
+                onChange={(e) =>
+                  update({ periodLength: Math.max(1, parseInt(e.target.value, 10) || 1) })
+                }
+                min="1"
+                max="52"
+                className="w-16 text-center"
+              />
+            </div>
+            <div className="flex gap-1">
+              {(["weeks", "months"] as const).map((unit) => (
+                <Button
+                  key={unit}
+                  variant={settlement.periodUnit === unit ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => update({ periodUnit: unit })}
+                  className="capitalize"
+                >
+                  {unit}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs text-muted-foreground mb-2">Max carry over (h)</label>
+              <Input
+                type="number"
+                value={settlement.maxCarryOver === null ? "" : settlement.maxCarryOver / 60}
+                onChange={(e) => update({ maxCarryOver: parseLimit(e.target.value) })}
+                placeholder="No limit"
+                step="0.5"
+                min="0"
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-muted-foreground mb-2">Max deficit (h)</label>
+              <Input
+                type="number"
+                value={settlement.maxDeficit === null ? "" : settlement.maxDeficit / 60}
+                onChange={(e) => update({ maxDeficit: parseLimit(e.target.value) })}
+                placeholder="No limit"
+                step="0.5"
+                min="0"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-xs text-muted-foreground mb-2">
+              Deficit beyond the limit
+            </label>
+            <div className="flex gap-2">
+              {(
+                [
+                  { v: "flag", l: "Carry over & flag" },
+                  { v: "forfeit", l: "Write off" },
+                ] as const
+              ).map(({ v, l }) => (
+                <Button
+                  key={v}
+                  variant={settlement.deficitAction === v ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => update({ deficitAction: v })}
+                >
+                  {l}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          <p className="text-xs text-muted-foreground">
+            Any balance above the carry-over limit is forfeited when a period closes.
+          </p>
+
+          <Button
+            variant="ghost"
+            size="sm"
+            className="text-muted-foreground"
+            onClick={() => setSettlement(null)}
+          >
+            Disable settlement
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+import { useMemo, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { ChevronRight, Download } from "lucide-react";
+import type { AppState } from "@/types/flexi-tracker";
+import { formatLeaveAmount, formatShortDate, parseDateStr } from "@/lib/flexi-tracker-utils";
+import { buildSicknessReport, sicknessReportToCsv } from "@/lib/sickness-report";
+import { cn } from "@/lib/utils";
+
+interface SicknessReportPanelProps {
+  open: boolean;
+  state: AppState;
+  onClose: () => void;
+}
+
+const formatDays = (days: number) =>
+  `${formatLeaveAmount(days, "days")} ${days === 1 ? "day" : "days"}`;
+
+export function SicknessReportPanel({ open, state, onClose }: SicknessReportPanelProps) {
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const report = useMemo(() => buildSicknessReport(state), [state]);
+  const episodes = [...report.episodes].reverse();
+
+  const handleExport = () => {
+    const blob = new Blob([sicknessReportToCsv(report)], { type: "text/csv" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `flexi-hours-sickness-${new Date().toISOString().split("T")[0]}.csv`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Sickness Report</DialogTitle>
+        </DialogHeader>
+
+        <div className="grid grid-cols-3 gap-2 text-center">
+          <Card className="p-3 gap-1">
+            <div className="text-xs text-muted-foreground">Episodes</div>
+            <div className="text-xl font-bold">{report.episodes.length}</div>
+          </Card>
+          <Card className="p-3 gap-1">
+            <div className="text-xs text-muted-foreground">Days</div>
+            <div className="text-xl font-bold">{formatLeaveAmount(report.totalDays, "days")}</div>
+          </Card>
+          <Card className="p-3 gap-1">
+            <div className="text-xs text-muted-foreground">Bradford</div>
+            <div className="text-xl font-bold">{report.bradford.score}</div>
+          </Card>
+        </div>
+
+        <p className="text-xs text-muted-foreground">
+          Bradford factor over the 52 weeks since {formatShortDate(report.bradford.from)}{" "}
+          {parseDateStr(report.bradford.from).getFullYear()}: {report.bradford.episodes}² episodes ×{" "}
+          {formatDays(report.bradford.days)}. Sick days separated only by non-working days count as
+          one episode.
+        </p>
+
+        {episodes.length > 0 ? (
+          <div className="space-y-2">
+            {episodes.map((episode) => (
+              <Card key={episode.start} className="p-0 gap-0">
+                <button
+                  onClick={() => setExpanded(expanded === episode.start ? null : episode.start)}
+                  className="flex w-full items-center justify-between p-3 text-left"
+                >
+                  <span className="text-sm font-medium">
+                    {formatShortDate(episode.start)}
+                    {episode.end !== episode.start && ` – ${formatShortDate(episode.end)}`}
+                    <span className="text-muted-foreground font-normal">
+                      {" "}
+                      {parseDateStr(episode.end).getFullYear()}
+                    </span>
+                  </span>
+                  <span className="flex items-center gap-2 text-xs text-muted-foreground">
+                    {formatDays(episode.days)}
+                    <ChevronRight
+                      className={cn(
+                        "h-4 w-4 transition-transform",
+                        expanded === episode.start && "rotate-90"
+                      )}
+                    />
+                  </span>
+                </button>
+                {expanded === episode.start && (
+                  <div className="border-t px-3 py-2 space-y-1 text-xs">
+                    {episode.sickDays.map((sickDay) => (
+                      <div key={sickDay.date} className="flex justify-between">
+                        <span>
+                          {parseDateStr(sickDay.date).toLocaleDateString(undefined, {
+                            weekday: "short",
+                            day: "numeric",
+                            month: "short",
+                          })}
+                        </span>
+                        <span className="text-muted-foreground">
+                          {sickDay.days === 1 ? "Full day" : "Half day"}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </Card>
+            ))}
+          </div>
+        ) : (
+          <p className="text-center text-muted-foreground text-sm py-4">No sick days recorded.</p>
+        )}
+
+        <Button
+          variant="outline"
+          className="w-full"
+          onClick={handleExport}
+          disabled={episodes.length === 0}
+        >
+          <Download className="h-4 w-4" />
+          Export CSV
+        </Button>
+      </DialogContent>
+    </Dialog>
+  );
+}
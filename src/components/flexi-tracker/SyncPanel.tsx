@@ -19,13 +19,24 @@ import {
 } from "lucide-react";
 import type {
   AppState,
-  ConflictEntry,
+  CustomDayType,
   DayEntry,
+  LeaveAllowance,
+  RoundingRule,
   Settings as SettingsType,
 } from "@/types/flexi-tracker";
 import { useP2PSync } from "@/hooks/use-p2p-sync";
+import { getSyncAlwaysAsk, setSyncAlwaysAsk } from "@/lib/sync/device";
 import { cn } from "@/lib/utils";
-import { FULL_DAYS } from "@/lib/flexi-tracker-utils";
+import {
+  FULL_DAYS,
+  formatDuration,
+  formatLeaveAmount,
+  formatSessions,
+  getDayTypeInfo,
+  getSessions,
+  getWeeklyTarget,
+} from "@/lib/flexi-tracker-utils";
 
 interface SyncPanelProps {
   open: boolean;
@@ -35,24 +46,46 @@ interface SyncPanelProps {
   onClose: () => void;
 }
 
-function formatEntryDisplay(entry: DayEntry): string {
+function formatEntryDisplay(entry: DayEntry, customDayTypes?: CustomDayType[]): string {
   const parts: string[] = [];
-  if (entry.startTime && entry.endTime) {
-    parts.push(`${entry.startTime} - ${entry.endTime}`);
-  } else if (entry.startTime) {
-    parts.push(`Start: ${entry.startTime}`);
-  } else if (entry.endTime) {
-    parts.push(`End: ${entry.endTime}`);
+  const sessions = formatSessions(getSessions(entry));
+  if (sessions) {
+    parts.push(sessions);
   }
   if (entry.breakMinutes) {
     parts.push(`${entry.breakMinutes}m break`);
   }
   if (entry.dayType && entry.dayType !== "normal") {
-    parts.push(entry.dayType);
+    parts.push(getDayTypeInfo(entry.dayType, customDayTypes).label);
+  }
+  if (entry.toilMinutes) {
+    parts.push(`${formatDuration(entry.toilMinutes)} TOIL`);
+  }
+  if (entry.leaveMinutes !== undefined) {
+    parts.push(`${formatDuration(entry.leaveMinutes)} leave`);
   }
   return parts.length > 0 ? parts.join(" | ") : "No data";
 }
 
+function formatAllowanceDisplay(allowance: LeaveAllowance): string {
+  const parts = [
+    allowance.unit === "hours"
+      ? formatLeaveAmount(allowance.totalMinutes || 0, "hours")
+      : `${formatLeaveAmount(allowance.totalDays, "days")} days`,
+    `${allowance.periodStart} to ${allowance.periodEnd}`,
+  ];
+  if (allowance.renewsYearly) {
+    parts.push("renews yearly");
+  }
+  if (allowance.accrual === "monthly") {
+    parts.push("accrues monthly");
+  }
+  if (allowance.maxCarryOver != null) {
+    parts.push(`carry over ${formatLeaveAmount(allowance.maxCarryOver, allowance.unit)}`);
+  }
+  return parts.join(" | ");
+}
+
 function formatDate(dateStr: string): string {
   const [year, month, day] = dateStr.split("-").map(Number);
   const date = new Date(year, month - 1, day);
@@ -63,26 +96,88 @@ function formatDate(dateStr: string): string {
   });
 }
 
-function formatSettingsDisplay(settings: SettingsType): string[] {
-  const lines: string[] = [];
-  const workingDayNames = settings.workingDays.map((d) => FULL_DAYS[d].slice(0, 3)).join(", ");
-  lines.push(`Working: ${workingDayNames}`);
-  lines.push(`${settings.expectedMinutesPerDay / 60}h/day`);
-  lines.push(`Week starts: ${settings.weekStartsOn === 1 ? "Mon" : "Sun"}`);
-  lines.push(`Non-working: ${settings.nonWorkingDayDisplay}`);
-  if (settings.nonWorkingDayRate !== 1) {
-    lines.push(`OT rate: ${settings.nonWorkingDayRate}x`);
-  }
-  return lines;
-}
+const formatRounding = (rule: RoundingRule | null) => (rule ? `${rule.mode} ${rule.unit}m` : "off");
+
+// How each setting reads when choosing between two devices' values
+const SETTINGS_FIELDS: Record<
+  keyof SettingsType,
+  { label: string; format: (settings: SettingsType) => string }
+> = {
+  workingDays: {
+    label: "Working days",
+    format: (s) => s.workingDays.map((d) => FULL_DAYS[d].slice(0, 3)).join(", ") || "None",
+  },
+  expectedMinutesPerDay: {
+    label: "Hours per day",
+    format: (s) => formatDuration(s.expectedMinutesPerDay),
+  },
+  expectedMinutesByWeekday: {
+    label: "Hours by weekday",
+    format: (s) =>
+      s.expectedMinutesByWeekday
+        ? `${formatDuration(getWeeklyTarget(s))}/week (varies by day)`
+        : "Same every day",
+  },
+  roster: {
+    label: "Roster",
+    format: (s) => (s.roster ? `${s.roster.weeks.length}-week roster` : "Off"),
+  },
+  weekStartsOn: { label: "Week starts", format: (s) => (s.weekStartsOn === 1 ? "Mon" : "Sun") },
+  nonWorkingDayDisplay: { label: "Non-working days", format: (s) => s.nonWorkingDayDisplay },
+  nonWorkingDayRate: { label: "OT rate", format: (s) => `${s.nonWorkingDayRate}x` },
+  customDayTypes: {
+    label: "Day types",
+    format: (s) => s.customDayTypes?.map((t) => t.label).join(", ") || "None",
+  },
+  settlement: {
+    label: "Settlement",
+    format: (s) =>
+      s.settlement ? `Every ${s.settlement.periodLength} ${s.settlement.periodUnit}` : "Off",
+  },
+  rules: {
+    label: "Compliance rules",
+    format: (s) => {
+      if (!s.rules) return "Off";
+      const { coreHours, minBreak, maxDailyMinutes } = s.rules;
+      const parts = [
+        coreHours && `core ${coreHours.start}-${coreHours.end}`,
+        minBreak &&
+          `${minBreak.breakMinutes}m break after ${formatDuration(minBreak.afterMinutes)}`,
+        maxDailyMinutes && `max ${formatDuration(maxDailyMinutes)}`,
+      ].filter(Boolean);
+      return parts.join(", ") || "On";
+    },
+  },
+  autoBreakRules: {
+    label: "Auto breaks",
+    format: (s) =>
+      s.autoBreakRules
+        ?.map((r) => `${r.breakMinutes}m after ${formatDuration(r.afterMinutes)}`)
+        .join(", ") || "None",
+  },
+  rounding: {
+    label: "Clock rounding",
+    format: (s) =>
+      s.rounding
+        ? `Start ${formatRounding(s.rounding.start)}, end ${formatRounding(s.rounding.end)}`
+        : "Off",
+  },
+};
 
 export function SyncPanel({ open, appState, initialMode, onMerge, onClose }: SyncPanelProps) {
   const sync = useP2PSync(appState, onMerge);
   const [manualCode, setManualCode] = useState("");
   const [cameraError, setCameraError] = useState<string | null>(null);
+  const [alwaysAsk, setAlwaysAsk] = useState(getSyncAlwaysAsk);
   const [entryResolutions, setEntryResolutions] = useState<Map<string, "local" | "remote">>(
     new Map()
   );
+  const [settingsResolutions, setSettingsResolutions] = useState<
+    Map<keyof SettingsType, "local" | "remote">
+  >(new Map());
+  const [allowanceResolutions, setAllowanceResolutions] = useState<Map<string, "local" | "remote">>(
+    new Map()
+  );
   const scannerRef = useRef<Html5Qrcode | null>(null);
   const scannerContainerRef = useRef<HTMLDivElement>(null);
   const hasStarted = useRef(false);
@@ -207,6 +302,8 @@ export function SyncPanel({ open, appState, initialMode, onMerge, onClose }: Syn
     setManualCode("");
     setCameraError(null);
     setEntryResolutions(new Map());
+    setSettingsResolutions(new Map());
+    setAllowanceResolutions(new Map());
     onClose();
   };
 
@@ -235,6 +332,25 @@ export function SyncPanel({ open, appState, initialMode, onMerge, onClose }: Syn
   const allEntryConflictsResolved =
     sync.syncResult?.entryConflicts.every((c) => entryResolutions.has(c.date)) ?? false;
 
+  const handleResolveSettingsField = (field: keyof SettingsType, choice: "local" | "remote") => {
+    setSettingsResolutions((prev) => new Map(prev).set(field, choice));
+  };
+
+  const handleResolveAllowance = (id: string, choice: "local" | "remote") => {
+    setAllowanceResolutions((prev) => new Map(prev).set(id, choice));
+  };
+
+  const settingsConflict = sync.syncResult?.settingsConflict;
+  const allowanceConflicts = sync.syncResult?.allowanceConflicts ?? [];
+  const conflictHeading = !settingsConflict
+    ? "Leave allowances differ"
+    : allowanceConflicts.length > 0
+      ? "Settings and leave allowances differ"
+      : "Settings differ";
+  const allSettingsFieldsResolved =
+    (settingsConflict?.fields.every((f) => settingsResolutions.has(f)) ?? true) &&
+    allowanceConflicts.every((c) => allowanceResolutions.has(c.local.id));
+
   return (
     <Dialog open={open} onOpenChange={(isOpen) => !isOpen && handleClose()}>
       <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
@@ -267,6 +383,23 @@ export function SyncPanel({ open, appState, initialMode, onMerge, onClose }: Syn
                   <span>Scan QR Code</span>
                 </Button>
               </div>
+              <div className="space-y-2">
+                <Button
+                  variant={alwaysAsk ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => {
+                    setSyncAlwaysAsk(!alwaysAsk);
+                    setAlwaysAsk(!alwaysAsk);
+                  }}
+                >
+                  Always ask
+                </Button>
+                <p className="text-xs text-muted-foreground">
+                  {alwaysAsk
+                    ? "You'll choose a version for every day or setting that differs."
+                    : "The newer edit is kept; you're only asked about days and settings changed on both devices since they last synced."}
+                </p>
+              </div>
             </div>
           )}
 
@@ -400,9 +533,14 @@ export function SyncPanel({ open, appState, initialMode, onMerge, onClose }: Syn
 
               <div className="space-y-3 max-h-64 overflow-y-auto">
                 {sync.syncResult.entryConflicts.map((conflict) => (
-                  <EntryConflictCard
+                  <ConflictCard
                     key={conflict.date}
-                    conflict={conflict}
+                    title={formatDate(conflict.date)}
+                    local={formatEntryDisplay(conflict.local, appState.settings.customDayTypes)}
+                    remote={formatEntryDisplay(
+                      conflict.remote,
+                      settingsConflict?.remote.customDayTypes ?? appState.settings.customDayTypes
+                    )}
                     selected={entryResolutions.get(conflict.date)}
                     onSelect={(choice) => handleResolveEntryConflict(conflict.date, choice)}
                   />
@@ -420,50 +558,52 @@ export function SyncPanel({ open, appState, initialMode, onMerge, onClose }: Syn
           )}
 
           {/* Settings Conflict State */}
-          {sync.status === "settings-conflict" && sync.syncResult?.settingsConflict && (
+          {sync.status === "settings-conflict" && (
             <div className="space-y-4">
               <div className="flex items-start gap-3 p-3 bg-amber-500/10 border border-amber-500/30 rounded-md">
                 <Settings className="h-5 w-5 text-amber-500 shrink-0 mt-0.5" />
                 <div>
-                  <p className="font-medium text-amber-600 dark:text-amber-400">Settings differ</p>
+                  <p className="font-medium text-amber-600 dark:text-amber-400">
+                    {conflictHeading}
+                  </p>
                   <p className="text-sm text-muted-foreground mt-1">
-                    Choose which settings to keep:
+                    Choose which version to keep for each:
                   </p>
                 </div>
               </div>
 
-              <div className="grid grid-cols-2 gap-3">
-                <button
-                  onClick={() => sync.resolveSettingsConflict("local")}
-                  className="p-3 rounded-md border text-left transition-colors hover:border-primary/50 hover:bg-primary/5"
-                >
-                  <p className="text-sm font-medium mb-2">This Device</p>
-                  <div className="space-y-1">
-                    {formatSettingsDisplay(sync.syncResult.settingsConflict.local).map(
-                      (line, i) => (
-                        <p key={i} className="text-xs text-muted-foreground">
-                          {line}
-                        </p>
-                      )
-                    )}
-                  </div>
-                </button>
-                <button
-                  onClick={() => sync.resolveSettingsConflict("remote")}
-                  className="p-3 rounded-md border text-left transition-colors hover:border-primary/50 hover:bg-primary/5"
-                >
-                  <p className="text-sm font-medium mb-2">Other Device</p>
-                  <div className="space-y-1">
-                    {formatSettingsDisplay(sync.syncResult.settingsConflict.remote).map(
-                      (line, i) => (
-                        <p key={i} className="text-xs text-muted-foreground">
-                          {line}
-                        </p>
-                      )
-                    )}
-                  </div>
-                </button>
+              <div className="space-y-3 max-h-64 overflow-y-auto">
+                {settingsConflict?.fields.map((field) => (
+                  <ConflictCard
+                    key={field}
+                    title={SETTINGS_FIELDS[field].label}
+                    local={SETTINGS_FIELDS[field].format(settingsConflict.local)}
+                    remote={SETTINGS_FIELDS[field].format(settingsConflict.remote)}
+                    selected={settingsResolutions.get(field)}
+                    onSelect={(choice) => handleResolveSettingsField(field, choice)}
+                  />
+                ))}
+                {allowanceConflicts.map((conflict) => (
+                  <ConflictCard
+                    key={conflict.local.id}
+                    title={conflict.local.name}
+                    local={formatAllowanceDisplay(conflict.local)}
+                    remote={formatAllowanceDisplay(conflict.remote)}
+                    selected={allowanceResolutions.get(conflict.local.id)}
+                    onSelect={(choice) => handleResolveAllowance(conflict.local.id, choice)}
+                  />
+                ))}
               </div>
+
+              <Button
+                className="w-full"
+                onClick={() =>
+                  sync.resolveSettingsConflict(settingsResolutions, allowanceResolutions)
+                }
+                disabled={!allSettingsFieldsResolved}
+              >
+                Continue
+              </Button>
             </div>
           )}
 
@@ -526,16 +666,18 @@ export function SyncPanel({ open, appState, initialMode, onMerge, onClose }: Syn
   );
 }
 
-interface EntryConflictCardProps {
-  conflict: ConflictEntry;
+interface ConflictCardProps {
+  title: string;
+  local: string;
+  remote: string;
   selected?: "local" | "remote";
   onSelect: (choice: "local" | "remote") => void;
 }
 
-function EntryConflictCard({ conflict, selected, onSelect }: EntryConflictCardProps) {
+function ConflictCard({ title, local, remote, selected, onSelect }: ConflictCardProps) {
   return (
     <Card className="p-3">
-      <p className="font-medium text-sm mb-2">{formatDate(conflict.date)}</p>
+      <p className="font-medium text-sm mb-2">{title}</p>
       <div className="grid grid-cols-2 gap-2">
         <button
           onClick={() => onSelect("local")}
@@ -547,7 +689,7 @@ function EntryConflictCard({ conflict, selected, onSelect }: EntryConflictCardPr
           )}
         >
           <p className="text-xs font-medium text-muted-foreground mb-1">This Device</p>
-          <p className="text-xs">{formatEntryDisplay(conflict.local)}</p>
+          <p className="text-xs">{local}</p>
         </button>
         <button
           onClick={() => onSelect("remote")}
@@ -559,7 +701,7 @@ function EntryConflictCard({ conflict, selected, onSelect }: EntryConflictCardPr
           )}
         >
           <p className="text-xs font-medium text-muted-foreground mb-1">Other Device</p>
-          <p className="text-xs">{formatEntryDisplay(conflict.remote)}</p>
+          <p className="text-xs">{remote}</p>
         </button>
       </div>
     </Card>
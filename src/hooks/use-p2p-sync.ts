@@ -8,7 +8,12 @@ import {
   isSyncMessage,
   validateSyncPayload,
 } from "@/lib/sync/sync-protocol";
-import { prepareSyncResult } from "@/lib/sync/merge-strategy";
+import {
+  applyAllowanceResolutions,
+  applySettingsResolutions,
+  prepareSyncResult,
+} from "@/lib/sync/merge-strategy";
+import { getDeviceId, getSyncAlwaysAsk } from "@/lib/sync/device";
 import type { AppState, SyncPayload, SyncResult, Settings } from "@/types/flexi-tracker";
 
 export type SyncStatus =
@@ -36,6 +41,33 @@ export interface P2PSyncState {
   };
 }
 
+// Build the state to persist once a sync result has been settled
+function toMergedState(result: SyncResult, appState: AppState): AppState {
+  const syncedWith = { ...appState.syncedWith };
+  const syncSnapshots = { ...appState.syncSnapshots };
+  if (result.peerDeviceId) {
+    syncedWith[result.peerDeviceId] = new Date().toISOString();
+    syncSnapshots[result.peerDeviceId] = {
+      entries: result.mergedEntries,
+      settings: result.mergedSettings,
+      leaveAllowances: result.mergedLeaveAllowances,
+    };
+  }
+  return {
+    entries: result.mergedEntries,
+    adjustments: result.mergedAdjustments,
+    settings: result.mergedSettings,
+    leaveAllowances: result.mergedLeaveAllowances,
+    settingsHistory: result.mergedSettingsHistory,
+    publicHolidays: result.mergedPublicHolidays,
+    plannedEntries: result.mergedPlannedEntries,
+    tombstones: result.mergedTombstones,
+    settingsModified: result.mergedSettingsModified,
+    syncedWith,
+    syncSnapshots,
+  };
+}
+
 export function useP2PSync(appState: AppState, onMerge: (state: AppState) => void) {
   const [state, setState] = useState<P2PSyncState>({
     status: "idle",
@@ -75,11 +107,27 @@ export function useP2PSync(appState: AppState, onMerge: (state: AppState) => voi
       entries: appState.entries,
       adjustments: appState.adjustments,
       settings: appState.settings,
-      leaveBalance: appState.leaveBalance,
+      leaveAllowances: appState.leaveAllowances,
+      settingsHistory: appState.settingsHistory,
+      publicHolidays: appState.publicHolidays,
+      plannedEntries: appState.plannedEntries,
+      tombstones: appState.tombstones,
+      settingsModified: appState.settingsModified,
+      deviceId: getDeviceId(),
       timestamp: Date.now(),
     };
   }, [appState]);
 
+  // Options for merging with the device that sent `remote`
+  const getMergeOptions = useCallback(
+    (remote: SyncPayload) => ({
+      alwaysAsk: getSyncAlwaysAsk(),
+      lastSyncedAt: remote.deviceId ? appState.syncedWith?.[remote.deviceId] : undefined,
+      base: remote.deviceId ? appState.syncSnapshots?.[remote.deviceId] : undefined,
+    }),
+    [appState]
+  );
+
   const processSyncResult = useCallback(
     async (result: SyncResult, conn: DataConnection) => {
       const entriesCount = Object.keys(result.mergedEntries).length;
@@ -106,23 +154,18 @@ export function useP2PSync(appState: AppState, onMerge: (state: AppState) => voi
         return;
       }
 
-      // Check for settings conflict
-      if (result.settingsConflict) {
+      // Check for settings or leave allowance conflicts
+      if (result.settingsConflict || result.allowanceConflicts.length > 0) {
         setState((s) => ({ ...s, status: "settings-conflict" }));
         return;
       }
 
       // No conflicts, apply merge directly
-      onMerge({
-        entries: result.mergedEntries,
-        adjustments: result.mergedAdjustments,
-        settings: result.mergedSettings,
-        leaveBalance: result.mergedLeaveBalance,
-      });
+      onMerge(toMergedState(result, appState));
       peerManager.current?.sendData(conn, createSyncComplete());
       setState((s) => ({ ...s, status: "complete" }));
     },
-    [onMerge]
+    [onMerge, appState]
   );
 
   const processIncomingData = useCallback(
@@ -136,13 +179,13 @@ export function useP2PSync(appState: AppState, onMerge: (state: AppState) => voi
         peerManager.current?.sendData(conn, createSyncResponse(localPayload));
 
         // Process merge with visual progress
-        const result = prepareSyncResult(localPayload, data.payload);
+        const result = prepareSyncResult(localPayload, data.payload, getMergeOptions(data.payload));
         processSyncResult(result, conn);
       } else if (data.type === "SYNC_COMPLETE") {
         setState((s) => ({ ...s, status: "complete" }));
       }
     },
-    [createLocalPayload, processSyncResult]
+    [createLocalPayload, getMergeOptions, processSyncResult]
   );
 
   const startHosting = useCallback(async () => {
@@ -271,7 +314,11 @@ export function useP2PSync(appState: AppState, onMerge: (state: AppState) => voi
             // Process merge with visual progress
             const localPayload = createLocalPayload();
             remotePayload.current = data.payload;
-            const result = prepareSyncResult(localPayload, data.payload);
+            const result = prepareSyncResult(
+              localPayload,
+              data.payload,
+              getMergeOptions(data.payload)
+            );
             processSyncResult(result, conn);
           } else if (data.type === "SYNC_COMPLETE") {
             setState((s) => ({ ...s, status: "complete" }));
@@ -293,7 +340,7 @@ export function useP2PSync(appState: AppState, onMerge: (state: AppState) => voi
         }));
       }
     },
-    [cleanup, createLocalPayload, processSyncResult]
+    [cleanup, createLocalPayload, getMergeOptions, processSyncResult]
   );
 
   const resolveEntryConflicts = useCallback(
@@ -317,8 +364,8 @@ export function useP2PSync(appState: AppState, onMerge: (state: AppState) => voi
         entryConflicts: [],
       };
 
-      // Check if there's also a settings conflict
-      if (state.syncResult.settingsConflict) {
+      // Check if there's also a settings or leave allowance conflict
+      if (state.syncResult.settingsConflict || state.syncResult.allowanceConflicts.length > 0) {
         setState((s) => ({
           ...s,
           status: "settings-conflict",
@@ -326,12 +373,7 @@ export function useP2PSync(appState: AppState, onMerge: (state: AppState) => voi
         }));
       } else {
         // No settings conflict, complete the sync
-        onMerge({
-          entries: finalEntries,
-          adjustments: state.syncResult.mergedAdjustments,
-          settings: state.syncResult.mergedSettings,
-          leaveBalance: state.syncResult.mergedLeaveBalance,
-        });
+        onMerge(toMergedState({ ...state.syncResult, mergedEntries: finalEntries }, appState));
 
         if (activeConnection.current && peerManager.current) {
           peerManager.current.sendData(activeConnection.current, createSyncComplete());
@@ -344,30 +386,47 @@ export function useP2PSync(appState: AppState, onMerge: (state: AppState) => voi
         }));
       }
     },
-    [state.syncResult, onMerge]
+    [state.syncResult, onMerge, appState]
   );
 
   const resolveSettingsConflict = useCallback(
-    (choice: "local" | "remote") => {
-      if (!state.syncResult || !state.syncResult.settingsConflict) return;
+    (
+      resolutions: Map<keyof Settings, "local" | "remote">,
+      allowanceResolutions: Map<string, "local" | "remote">
+    ) => {
+      if (!state.syncResult) return;
 
-      const finalSettings: Settings =
-        choice === "local"
-          ? state.syncResult.settingsConflict.local
-          : state.syncResult.settingsConflict.remote;
+      const finalSettings = state.syncResult.settingsConflict
+        ? applySettingsResolutions(
+            state.syncResult.mergedSettings,
+            resolutions,
+            state.syncResult.settingsConflict
+          )
+        : state.syncResult.mergedSettings;
+      const finalAllowances = applyAllowanceResolutions(
+        state.syncResult.mergedLeaveAllowances,
+        allowanceResolutions,
+        state.syncResult.allowanceConflicts
+      );
 
       const updatedResult = {
         ...state.syncResult,
         mergedSettings: finalSettings,
+        mergedLeaveAllowances: finalAllowances,
         settingsConflict: null,
+        allowanceConflicts: [],
       };
 
-      onMerge({
-        entries: state.syncResult.mergedEntries,
-        adjustments: state.syncResult.mergedAdjustments,
-        settings: finalSettings,
-        leaveBalance: state.syncResult.mergedLeaveBalance,
-      });
+      onMerge(
+        toMergedState(
+          {
+            ...state.syncResult,
+            mergedSettings: finalSettings,
+            mergedLeaveAllowances: finalAllowances,
+          },
+          appState
+        )
+      );
 
       if (activeConnection.current && peerManager.current) {
         peerManager.current.sendData(activeConnection.current, createSyncComplete());
@@ -379,7 +438,7 @@ export function useP2PSync(appState: AppState, onMerge: (state: AppState) => voi
         syncResult: updatedResult,
       }));
     },
-    [state.syncResult, onMerge]
+    [state.syncResult, onMerge, appState]
   );
 
   const reset = useCallback(() => {
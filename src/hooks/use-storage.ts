@@ -1,64 +1,114 @@
 import { useState, useEffect, useCallback, useRef } from "react";
 import type { AppState } from "@/types/flexi-tracker";
-import { DEFAULT_SETTINGS, DEFAULT_STATE } from "@/lib/flexi-tracker-utils";
+import { DEFAULT_SETTINGS, DEFAULT_STATE, normalizeState } from "@/lib/flexi-tracker-utils";
+import { mergeTabStates } from "@/lib/sync/tab-merge";
 
 const STORAGE_KEY = "flexi-tracker-data";
 
+const parseStoredState = (parsed: AppState): AppState =>
+  normalizeState({
+    ...DEFAULT_STATE,
+    ...parsed,
+    settings: { ...DEFAULT_SETTINGS, ...parsed.settings },
+  });
+
+const readStored = async (): Promise<AppState | null> => {
+  // Try window.storage first (for Electron/native apps), falling back to localStorage for web
+  const stored = window.storage
+    ? (await window.storage.get(STORAGE_KEY))?.value
+    : localStorage.getItem(STORAGE_KEY);
+  return stored ? parseStoredState(JSON.parse(stored)) : null;
+};
+
+// Tabs tell each other what they saved, so a tab with stale data can catch up
+const openTabChannel = (): BroadcastChannel | null =>
+  typeof BroadcastChannel === "undefined" ? null : new BroadcastChannel(STORAGE_KEY);
+
 export const useStorage = (): [AppState, (newState: AppState) => void, boolean] => {
   const [state, setState] = useState<AppState>(DEFAULT_STATE);
   const [loaded, setLoaded] = useState(false);
   const saveTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // The latest state here, and the last one this tab read from or wrote to storage
+  const stateRef = useRef<AppState>(DEFAULT_STATE);
+  const savedRef = useRef<AppState>(DEFAULT_STATE);
+  const channelRef = useRef<BroadcastChannel | null>(null);
+
+  // Take in a state another tab saved, keeping whatever changed here since our last read
+  const applyStored = useCallback((stored: AppState) => {
+    const merged = mergeTabStates(savedRef.current, stateRef.current, stored);
+    savedRef.current = stored;
+    stateRef.current = merged;
+    setState(merged);
+    return merged;
+  }, []);
+
+  const flush = useCallback(async () => {
+    if (saveTimeoutRef.current) clearTimeout(saveTimeoutRef.current);
+    saveTimeoutRef.current = null;
+    try {
+      // Another tab may have saved since we last looked; merge rather than overwrite it
+      const stored = await readStored();
+      const current = stored ? applyStored(stored) : stateRef.current;
+      const serialized = JSON.stringify(current);
+      if (window.storage) {
+        await window.storage.set(STORAGE_KEY, serialized);
+      } else {
+        localStorage.setItem(STORAGE_KEY, serialized);
+      }
+      savedRef.current = current;
+      channelRef.current?.postMessage(serialized);
+    } catch (e) {
+      console.error("Failed to save:", e);
+    }
+  }, [applyStored]);
 
   useEffect(() => {
     const load = async () => {
       try {
-        // Try window.storage first (for Electron/native apps)
-        if (window.storage) {
-          const result = await window.storage.get(STORAGE_KEY);
-          if (result?.value) {
-            const parsed = JSON.parse(result.value);
-            setState({
-              ...DEFAULT_STATE,
-              ...parsed,
-              settings: { ...DEFAULT_SETTINGS, ...parsed.settings },
-            });
-          }
-        } else {
-          // Fallback to localStorage for web
-          const stored = localStorage.getItem(STORAGE_KEY);
-          if (stored) {
-            const parsed = JSON.parse(stored);
-            setState({
-              ...DEFAULT_STATE,
-              ...parsed,
-              settings: { ...DEFAULT_SETTINGS, ...parsed.settings },
-            });
-          }
-        }
+        const stored = await readStored();
+        if (stored) applyStored(stored);
       } catch {
         console.log("No existing data, starting fresh");
       }
       setLoaded(true);
     };
     load();
-  }, []);
+  }, [applyStored]);
 
-  const save = useCallback((newState: AppState) => {
-    setState(newState);
-    if (saveTimeoutRef.current) clearTimeout(saveTimeoutRef.current);
-    saveTimeoutRef.current = setTimeout(async () => {
-      try {
-        const serialized = JSON.stringify(newState);
-        if (window.storage) {
-          await window.storage.set(STORAGE_KEY, serialized);
-        } else {
-          localStorage.setItem(STORAGE_KEY, serialized);
-        }
-      } catch (e) {
-        console.error("Failed to save:", e);
-      }
-    }, 300);
-  }, []);
+  useEffect(() => {
+    const channel = openTabChannel();
+    channelRef.current = channel;
+    if (!channel) return;
+
+    // A pending save here merges again when it runs, so nothing needs writing back now
+    channel.onmessage = (event: MessageEvent<string>) => {
+      applyStored(parseStoredState(JSON.parse(event.data)));
+    };
+
+    return () => {
+      channel.close();
+      channelRef.current = null;
+    };
+  }, [applyStored]);
+
+  // Don't lose a pending save, such as a clock-in, when the page is reloaded or closed
+  useEffect(() => {
+    const handlePageHide = () => {
+      if (saveTimeoutRef.current) flush();
+    };
+    window.addEventListener("pagehide", handlePageHide);
+    return () => window.removeEventListener("pagehide", handlePageHide);
+  }, [flush]);
+
+  const save = useCallback(
+    (newState: AppState) => {
+      stateRef.current = newState;
+      setState(newState);
+      if (saveTimeoutRef.current) clearTimeout(saveTimeoutRef.current);
+      saveTimeoutRef.current = setTimeout(flush, 300);
+    },
+    [flush]
+  );
 
   return [state, save, loaded];
 };
@@ -1,4 +1,30 @@
-import type { DayEntry, DayType, DayTypeInfo, Settings, LeaveBalance } from "@/types/flexi-tracker";
+import type {
+  AppState,
+  BreakInterval,
+  BuiltInDayType,
+  CustomDayType,
+  CustomDayTypeId,
+  DayEntry,
+  DaySchedule,
+  DayType,
+  DayTypeInfo,
+  Settings,
+  LeaveAllowance,
+  LeaveBalance,
+  LeavePeriodStats,
+  PlanOverdraft,
+  RoundingRule,
+  RuleViolation,
+  Projection,
+  PublicHoliday,
+  Roster,
+  SettingsChange,
+  SettlementPeriod,
+  SettlementSettings,
+  TimeRounding,
+  Tombstone,
+  WorkSession,
+} from "@/types/flexi-tracker";
 
 export const DEFAULT_SETTINGS: Settings = {
   workingDays: [1, 2, 3, 4, 5],
@@ -17,11 +43,47 @@ export const getDefaultLeaveBalance = (): LeaveBalance => {
   };
 };
 
+export const SUGGESTED_LEAVE_ALLOWANCES: Pick<LeaveAllowance, "name" | "dayTypes">[] = [
+  { name: "Annual Leave", dayTypes: ["holiday"] },
+  { name: "Sick Pay", dayTypes: ["sick"] },
+  { name: "Study Leave", dayTypes: [] },
+  { name: "Volunteering", dayTypes: [] },
+  { name: "Parental Leave", dayTypes: [] },
+];
+
+export const createLeaveAllowance = (name: string, dayTypes: DayType[]): LeaveAllowance => ({
+  ...getDefaultLeaveBalance(),
+  id: Date.now().toString(),
+  name,
+  dayTypes,
+  renewsYearly: true,
+});
+
 export const DEFAULT_STATE = {
   settings: DEFAULT_SETTINGS,
   entries: {} as Record<string, DayEntry>,
   adjustments: [],
-  leaveBalance: undefined as LeaveBalance | undefined,
+  leaveAllowances: [] as LeaveAllowance[],
+  settingsHistory: [] as SettingsChange[],
+  publicHolidays: [] as PublicHoliday[],
+  plannedEntries: {} as Record<string, DayEntry>,
+  tombstones: [] as Tombstone[],
+};
+
+/**
+ * Resolve the settings in force on a given date. The base settings apply until the first
+ * scheduled change; each change then overrides its fields from its effective date onwards.
+ */
+export const getSettingsForDate = (
+  settings: Settings,
+  history: SettingsChange[] | undefined,
+  dateStr: string
+): Settings => {
+  if (!history || history.length === 0) return settings;
+  return history
+    .filter((change) => change.effectiveFrom <= dateStr)
+    .sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom))
+    .reduce<Settings>((resolved, change) => ({ ...resolved, ...change.settings }), settings);
 };
 
 export const DAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
@@ -35,7 +97,7 @@ export const FULL_DAYS = [
   "Saturday",
 ];
 
-export const DAY_TYPES: Record<DayType, DayTypeInfo> = {
+export const DAY_TYPES: Record<BuiltInDayType, DayTypeInfo> = {
   normal: { label: "", icon: null, color: "" },
   sick: {
     label: "Sick",
@@ -67,6 +129,86 @@ export const DAY_TYPES: Record<DayType, DayTypeInfo> = {
     icon: "Clock",
     color: "bg-violet-50 dark:bg-violet-950/50 border-violet-200 dark:border-violet-800",
   },
+  toil: {
+    label: "TOIL",
+    icon: "Hourglass",
+    color: "bg-orange-100 dark:bg-orange-950 border-orange-300 dark:border-orange-700",
+  },
+  "toil-half": {
+    label: "1/2 TOIL",
+    icon: "Hourglass",
+    color: "bg-orange-50 dark:bg-orange-950/50 border-orange-200 dark:border-orange-800",
+  },
+};
+
+export const DAY_TYPE_COLORS: Record<string, string> = {
+  emerald: "bg-emerald-100 dark:bg-emerald-950 border-emerald-300 dark:border-emerald-700",
+  teal: "bg-teal-100 dark:bg-teal-950 border-teal-300 dark:border-teal-700",
+  indigo: "bg-indigo-100 dark:bg-indigo-950 border-indigo-300 dark:border-indigo-700",
+  pink: "bg-pink-100 dark:bg-pink-950 border-pink-300 dark:border-pink-700",
+  orange: "bg-orange-100 dark:bg-orange-950 border-orange-300 dark:border-orange-700",
+  lime: "bg-lime-100 dark:bg-lime-950 border-lime-300 dark:border-lime-700",
+  slate: "bg-slate-100 dark:bg-slate-900 border-slate-300 dark:border-slate-700",
+};
+
+export const DAY_TYPE_ICON_NAMES = [
+  "GraduationCap",
+  "Scale",
+  "Heart",
+  "Hourglass",
+  "House",
+  "Plane",
+  "Briefcase",
+  "Laptop",
+  "BookOpen",
+  "Users",
+  "Car",
+  "Stethoscope",
+  "Baby",
+  "Star",
+];
+
+// Mnemonics taken by the built-in preset menu items
+// (copy, normal, sick, holiday, flexi, TOIL, bank as TOIL, clear)
+export const RESERVED_DAY_TYPE_SHORTCUTS = ["Y", "N", "S", "H", "F", "T", "L", "X"];
+
+export const SUGGESTED_DAY_TYPES: Omit<CustomDayType, "id">[] = [
+  { label: "Training", icon: "GraduationCap", color: "teal", shortcut: "R", credit: "full" },
+  { label: "Jury Duty", icon: "Scale", color: "slate", shortcut: "J", credit: "full" },
+  { label: "Compassionate", icon: "Heart", color: "pink", shortcut: "C", credit: "full" },
+  { label: "WFH", icon: "House", color: "emerald", shortcut: "W", credit: "none" },
+  { label: "Travel", icon: "Plane", color: "indigo", shortcut: "B", credit: "none" },
+];
+
+export const isCustomDayType = (dayType: DayType): dayType is CustomDayTypeId =>
+  dayType.startsWith("custom:");
+
+export const findCustomDayType = (
+  dayType: DayType | undefined,
+  customDayTypes: CustomDayType[] | undefined
+): CustomDayType | undefined => {
+  if (!dayType || !isCustomDayType(dayType)) return undefined;
+  return customDayTypes?.find((t) => t.id === dayType);
+};
+
+export const getDayTypeInfo = (
+  dayType: DayType,
+  customDayTypes: CustomDayType[] | undefined
+): DayTypeInfo => {
+  if (!isCustomDayType(dayType)) return DAY_TYPES[dayType];
+  const custom = findCustomDayType(dayType, customDayTypes);
+  // Entries keep the id of a deleted type, and count as a normal day from then on
+  if (!custom) return { label: "Removed type", icon: null, color: "" };
+  return { label: custom.label, icon: custom.icon, color: DAY_TYPE_COLORS[custom.color] ?? "" };
+};
+
+// Whether the day type stands in for the whole day, so any recorded times are ignored
+export const isFullDayType = (
+  dayType: DayType,
+  customDayTypes: CustomDayType[] | undefined
+): boolean => {
+  if (["sick", "holiday", "flexi", "toil"].includes(dayType)) return true;
+  return findCustomDayType(dayType, customDayTypes)?.credit === "full";
 };
 
 export const formatMinutes = (mins: number): string => {
@@ -127,6 +269,36 @@ export const timeToMinutes = (time: string | null | undefined): number => {
   return h * 60 + m;
 };
 
+const minutesToTime = (mins: number): string => {
+  const wrapped = ((mins % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  const h = Math.floor(wrapped / 60);
+  const m = wrapped % 60;
+  return `${h.toString().padStart(2, "0")}:${m.toString().padStart(2, "0")}`;
+};
+
+const roundMinutes = (mins: number, rule: RoundingRule, edge: "start" | "end"): number => {
+  const below = Math.floor(mins / rule.unit) * rule.unit;
+  const above = Math.ceil(mins / rule.unit) * rule.unit;
+  // The grace window always rounds in the employee's favour
+  if (edge === "start" && mins - below <= rule.graceMinutes) return below;
+  if (edge === "end" && above - mins <= rule.graceMinutes) return above;
+  if (rule.mode === "up") return above;
+  if (rule.mode === "down") return below;
+  return mins - below < above - mins ? below : above;
+};
+
+export const roundTime = (
+  time: string,
+  rule: RoundingRule | null | undefined,
+  edge: "start" | "end"
+): string => (rule ? minutesToTime(roundMinutes(timeToMinutes(time), rule, edge)) : time);
+
+// The time to record when clocking in or out, rounded as payroll would
+export const getClockTimeStr = (
+  rounding: TimeRounding | null | undefined,
+  edge: "start" | "end"
+): string => roundTime(getCurrentTimeStr(), rounding?.[edge], edge);
+
 export const getDateStr = (date: Date): string => {
   const year = date.getFullYear();
   const month = (date.getMonth() + 1).toString().padStart(2, "0");
@@ -147,32 +319,391 @@ export const getWeekDates = (date: Date, weekStartsOn: number): Date[] => {
   return dates;
 };
 
-export const calculateWorked = (entry: DayEntry | undefined): number => {
-  if (!entry?.startTime || !entry?.endTime) return 0;
-  const start = timeToMinutes(entry.startTime);
-  const end = timeToMinutes(entry.endTime);
-  const worked = end - start - (entry.breakMinutes || 0);
-  return Math.max(0, worked);
+export const getSessions = (entry: DayEntry | undefined): WorkSession[] => {
+  if (!entry) return [];
+  if (entry.sessions) return entry.sessions;
+  // Entries saved before multiple sessions were supported
+  if (entry.startTime || entry.endTime) return [{ start: entry.startTime, end: entry.endTime }];
+  return [];
 };
 
-export const calculateEffectiveWorked = (
+export const normalizeEntry = (entry: DayEntry): DayEntry => {
+  if (!("startTime" in entry) && !("endTime" in entry)) return entry;
+  const normalized: DayEntry = { ...entry };
+  delete normalized.startTime;
+  delete normalized.endTime;
+  const sessions = getSessions(entry);
+  if (sessions.length > 0) normalized.sessions = sessions;
+  return normalized;
+};
+
+export const normalizeEntries = (entries: Record<string, DayEntry>): Record<string, DayEntry> => {
+  const normalized: Record<string, DayEntry> = {};
+  Object.entries(entries).forEach(([dateStr, entry]) => {
+    if (entry) normalized[dateStr] = normalizeEntry(entry);
+  });
+  return normalized;
+};
+
+/**
+ * Older data has a single annual leave balance, with custom day types marking whether they
+ * use it. Turn that into an allowance list with one "Annual Leave" allowance.
+ */
+export const migrateLeaveBalance = (
+  leaveBalance: LeaveBalance | undefined,
+  customDayTypes: CustomDayType[] | undefined
+): LeaveAllowance[] => {
+  if (!leaveBalance) return [];
+  const linkedTypes = (customDayTypes || [])
+    .filter((t) => t.allowance === "annual-leave")
+    .map((t) => t.id);
+  return [
+    {
+      id: "annual-leave",
+      name: "Annual Leave",
+      totalDays: leaveBalance.totalDays,
+      periodStart: leaveBalance.periodStart,
+      periodEnd: leaveBalance.periodEnd,
+      dayTypes: ["holiday", ...linkedTypes],
+    },
+  ];
+};
+
+// Bring stored, imported or synced state up to the current shape
+export const normalizeState = (state: AppState): AppState => {
+  const normalized: AppState = {
+    ...state,
+    entries: normalizeEntries(state.entries || {}),
+    leaveAllowances: state.leaveAllowances?.length
+      ? state.leaveAllowances
+      : migrateLeaveBalance(state.leaveBalance, state.settings.customDayTypes),
+  };
+  delete normalized.leaveBalance;
+  return normalized;
+};
+
+export const entryHasData = (entry: DayEntry | undefined): boolean => {
+  if (!entry) return false;
+  return !!entry.dayType || getSessions(entry).some((s) => s.start || s.end);
+};
+
+export const getOpenSession = (entry: DayEntry | undefined): WorkSession | undefined => {
+  const sessions = getSessions(entry);
+  const last = sessions[sessions.length - 1];
+  return last?.start && !last.end ? last : undefined;
+};
+
+// Deletions only need to outlive the gap between syncs
+export const TOMBSTONE_RETENTION_DAYS = 90;
+
+export const pruneTombstones = (tombstones: Tombstone[], now: Date = new Date()): Tombstone[] => {
+  const cutoff = now.getTime() - TOMBSTONE_RETENTION_DAYS * 86400000;
+  return tombstones.filter((t) => new Date(t.deletedAt).getTime() >= cutoff);
+};
+
+/**
+ * Keep the deletion record for a day in step with an edit: clearing a day that had data
+ * records it, and filling the day in again drops the record.
+ */
+export const recordEntryChange = (
+  tombstones: Tombstone[] | undefined,
+  dateStr: string,
+  before: DayEntry | undefined,
+  after: DayEntry | null
+): Tombstone[] => {
+  const hasData = (entry: DayEntry | null | undefined) =>
+    !!entry && (entryHasData(entry) || !!entry.breakMinutes);
+  const others = (tombstones || []).filter((t) => !(t.kind === "entry" && t.key === dateStr));
+  if (hasData(after) || !hasData(before)) return others;
+  return pruneTombstones([
+    ...others,
+    { kind: "entry", key: dateStr, deletedAt: new Date().toISOString(), entry: before },
+  ]);
+};
+
+// Record the plans an edit removed, and drop the records of days planned again
+export const recordPlanChanges = (
+  tombstones: Tombstone[] | undefined,
+  before: Record<string, DayEntry>,
+  after: Record<string, DayEntry>
+): Tombstone[] => {
+  const deletedAt = new Date().toISOString();
+  const removed = Object.keys(before).filter((date) => !(date in after));
+  const others = (tombstones || []).filter(
+    (t) => !(t.kind === "plan" && (t.key in after || removed.includes(t.key)))
+  );
+  return pruneTombstones([
+    ...others,
+    ...removed.map(
+      (date): Tombstone => ({ kind: "plan", key: date, deletedAt, entry: before[date] })
+    ),
+  ]);
+};
+
+// Record the keys an edit removed from a list of records
+const recordKeyDeletions = (
+  tombstones: Tombstone[] | undefined,
+  kind: Tombstone["kind"],
+  before: string[],
+  after: string[]
+): Tombstone[] => {
+  const deletedAt = new Date().toISOString();
+  const kept = new Set(after);
+  // A record added back under the same key is no longer deleted
+  return pruneTombstones([
+    ...(tombstones || []).filter((t) => !(t.kind === kind && kept.has(t.key))),
+    ...before.filter((key) => !kept.has(key)).map((key): Tombstone => ({ kind, key, deletedAt })),
+  ]);
+};
+
+const ids = (records: { id: string }[]) => records.map((r) => r.id);
+
+// Record the scheduled settings changes an edit removed, including ones replaced on the same date
+export const recordSettingsChangeDeletions = (
+  tombstones: Tombstone[] | undefined,
+  before: SettingsChange[],
+  after: SettingsChange[]
+): Tombstone[] => recordKeyDeletions(tombstones, "settings-change", ids(before), ids(after));
+
+export const recordAllowanceDeletions = (
+  tombstones: Tombstone[] | undefined,
+  before: LeaveAllowance[],
+  after: LeaveAllowance[]
+): Tombstone[] => recordKeyDeletions(tombstones, "allowance", ids(before), ids(after));
+
+export const recordHolidayDeletions = (
+  tombstones: Tombstone[] | undefined,
+  before: PublicHoliday[],
+  after: PublicHoliday[]
+): Tombstone[] =>
+  recordKeyDeletions(
+    tombstones,
+    "holiday",
+    before.map((h) => h.date),
+    after.map((h) => h.date)
+  );
+
+export const recordAdjustmentDeletion = (
+  tombstones: Tombstone[] | undefined,
+  id: string
+): Tombstone[] =>
+  pruneTombstones([
+    ...(tombstones || []),
+    { kind: "adjustment", key: id, deletedAt: new Date().toISOString() },
+  ]);
+
+export const clockIn = (entry: DayEntry | undefined, time: string): DayEntry => {
+  if (getOpenSession(entry)) return entry!;
+  // Reuse a trailing blank session rather than stacking empty rows
+  const sessions = getSessions(entry).filter((s) => s.start || s.end);
+  return { ...entry, sessions: [...sessions, { start: time, end: null }] };
+};
+
+// The break running now, if the day's live session is paused
+export const getOpenBreak = (entry: DayEntry | undefined): BreakInterval | undefined => {
+  const last = entry?.breaks?.[entry.breaks.length - 1];
+  if (!last || last.end || !getOpenSession(entry)) return undefined;
+  // A break left open by an earlier session, placed after that session's start, isn't this one's
+  const starts = getSessionRanges(entry, 0).flatMap((r) => (r ? [r.start] : []));
+  const openStart = starts[starts.length - 1];
+  const from = starts[Math.max(0, starts.length - 2)];
+  let pausedAt = Math.floor(from / MINUTES_PER_DAY) * MINUTES_PER_DAY + timeToMinutes(last.start);
+  if (pausedAt < from) pausedAt += MINUTES_PER_DAY;
+  return pausedAt < openStart ? undefined : last;
+};
+
+export const pauseTracking = (entry: DayEntry | undefined, time: string): DayEntry => {
+  if (!entry || !getOpenSession(entry) || getOpenBreak(entry)) return entry ?? {};
+  return { ...entry, breaks: [...(entry.breaks || []), { start: time, end: null }] };
+};
+
+export const resumeTracking = (entry: DayEntry | undefined, time: string): DayEntry => {
+  const openBreak = getOpenBreak(entry);
+  if (!entry?.breaks || !openBreak) return entry ?? {};
+  const breaks = entry.breaks;
+  // Breaks are short, so one ending "earlier" than it started ran past midnight
+  const length =
+    (timeToMinutes(time) - timeToMinutes(openBreak.start) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  return {
+    ...entry,
+    breaks: breaks.map((b, i) => (i === breaks.length - 1 ? { ...b, end: time } : b)),
+    breakMinutes: (entry.breakMinutes || 0) + length,
+  };
+};
+
+export const clockOut = (entry: DayEntry | undefined, time: string): DayEntry => {
+  const sessionStart = getOpenSession(entry)?.start;
+  if (!entry || !sessionStart) return entry ?? {};
+  const sessions = getSessions(entry);
+  const openBreak = getOpenBreak(entry);
+  // A clock-out rounded back to before the pause began ends the break where it started
+  const sinceStart = (t: string) =>
+    (timeToMinutes(t) - timeToMinutes(sessionStart) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  const breakEnd =
+    openBreak && sinceStart(time) < sinceStart(openBreak.start) ? openBreak.start : time;
+  return {
+    // Clocking out while paused ends the break too
+    ...resumeTracking(entry, breakEnd),
+    sessions: sessions.map((s, i) => (i === sessions.length - 1 ? { ...s, end: time } : s)),
+  };
+};
+
+export const formatSessions = (sessions: WorkSession[]): string => {
+  return sessions
+    .filter((s) => s.start || s.end)
+    .map((s) => `${s.start || "?"} - ${s.end || "?"}`)
+    .join(", ");
+};
+
+export const MINUTES_PER_DAY = 24 * 60;
+
+export interface SessionRange {
+  start: number; // minutes from midnight at the start of the entry's date
+  end: number; // may exceed 1440 when the session runs past midnight
+}
+
+/**
+ * Lay sessions out on a timeline starting at midnight of the entry's date. A time earlier
+ * than the one before it is taken to be on the following day, so a 22:00 - 06:00 shift is
+ * 8 hours and all of it counts towards the date the shift started.
+ */
+export const getSessionRanges = (
+  entry: DayEntry | undefined,
+  nowMins?: number,
+  rounding?: TimeRounding | null
+): (SessionRange | null)[] => {
+  // Typed-in times are only rounded when the policy says so; clock times already are
+  const round = (time: string, edge: "start" | "end") =>
+    timeToMinutes(rounding?.applyToManual ? roundTime(time, rounding[edge], edge) : time);
+
+  let cursor = 0;
+  return getSessions(entry).map((session) => {
+    if (!session.start) return null;
+    const dayStart = Math.floor(cursor / MINUTES_PER_DAY) * MINUTES_PER_DAY;
+    let start = dayStart + round(session.start, "start");
+    if (start < cursor) start += MINUTES_PER_DAY;
+
+    let end: number;
+    if (session.end) {
+      end = Math.floor(start / MINUTES_PER_DAY) * MINUTES_PER_DAY + round(session.end, "end");
+      if (end < start) end += MINUTES_PER_DAY;
+    } else if (nowMins !== undefined) {
+      end = Math.max(start, nowMins);
+    } else {
+      return null;
+    }
+
+    cursor = end;
+    return { start, end };
+  });
+};
+
+const sumRanges = (ranges: (SessionRange | null)[]): number =>
+  ranges.reduce((sum, r) => sum + (r ? r.end - r.start : 0), 0);
+
+// Settings that change how much time a day's sessions count for
+type WorkSettings = Pick<Settings, "autoBreakRules" | "rounding">;
+
+// Time between sessions, which counts as break alongside the minutes typed in
+const getSessionGaps = (ranges: (SessionRange | null)[]): number => {
+  const timed = ranges.filter((r): r is SessionRange => r !== null);
+  if (timed.length < 2) return 0;
+  return timed[timed.length - 1].end - timed[0].start - sumRanges(timed);
+};
+
+/**
+ * The break deducted automatically on top of the one typed in: once the time worked passes
+ * a rule's threshold, any shortfall against its break is deducted. The largest rule that
+ * applies wins, and a day can opt out with `noAutoBreak`.
+ */
+export const getAutoBreakMinutes = (
+  entry: DayEntry | undefined,
+  { autoBreakRules, rounding }: WorkSettings,
+  nowMins?: number
+): number => {
+  if (!autoBreakRules?.length || entry?.noAutoBreak) return 0;
+  const ranges = getSessionRanges(entry, nowMins, rounding);
+  const typedBreak = entry?.breakMinutes || 0;
+  const worked = sumRanges(ranges) - typedBreak;
+  const required = autoBreakRules
+    .filter((rule) => worked > rule.afterMinutes)
+    .reduce((max, rule) => Math.max(max, rule.breakMinutes), 0);
+  return Math.max(0, required - typedBreak - getSessionGaps(ranges));
+};
+
+export const calculateWorked = (
+  entry: DayEntry | undefined,
+  settings: WorkSettings = {}
+): number => {
+  const total = sumRanges(getSessionRanges(entry, undefined, settings.rounding));
+  if (total === 0) return 0;
+  const breakMinutes = (entry?.breakMinutes || 0) + getAutoBreakMinutes(entry, settings);
+  return Math.max(0, total - breakMinutes);
+};
+
+export const calculateLiveWorked = (
+  entry: DayEntry | undefined,
+  date: Date,
+  now: Date,
+  settings: WorkSettings = {}
+): number => {
+  // Minutes since midnight of the entry's date, so a shift started yesterday keeps counting
+  const dayStart = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const daysSince = Math.round((today.getTime() - dayStart.getTime()) / 86400000);
+  const nowMins = daysSince * MINUTES_PER_DAY + now.getHours() * 60 + now.getMinutes();
+  // A break still running counts up to now, which holds the total still while paused
+  const liveEntry = getOpenBreak(entry) ? resumeTracking(entry, minutesToTime(nowMins)) : entry;
+  const total = sumRanges(getSessionRanges(liveEntry, nowMins, settings.rounding));
+  const breakMinutes =
+    (liveEntry?.breakMinutes || 0) + getAutoBreakMinutes(liveEntry, settings, nowMins);
+  return Math.max(0, total - breakMinutes);
+};
+
+type CreditSettings = Pick<Settings, "customDayTypes" | "rules"> & WorkSettings;
+
+// Minutes a day counts for before any overtime is banked as TOIL
+const calculateCreditedMinutes = (
   entry: DayEntry | undefined,
   expectedMinutes: number,
-  isWorkingDay = true,
-  nonWorkingDayRate = 1
+  isWorkingDay: boolean,
+  nonWorkingDayRate: number,
+  settings: CreditSettings
 ): number => {
-  const actualWorked = calculateWorked(entry);
+  const { customDayTypes, rules } = settings;
+  const worked = calculateWorked(entry, settings);
+  // Time beyond the daily maximum isn't credited when the policy caps it
+  const actualWorked =
+    rules?.capAtMax && rules.maxDailyMinutes !== null
+      ? Math.min(worked, rules.maxDailyMinutes)
+      : worked;
   const dayType = entry?.dayType || "normal";
 
   const rateMultiplier = isWorkingDay ? 1 : nonWorkingDayRate;
 
+  const custom = findCustomDayType(dayType, customDayTypes);
+  if (custom) {
+    switch (custom.credit) {
+      case "full":
+        return expectedMinutes;
+      case "half":
+        return Math.floor(expectedMinutes / 2) + actualWorked;
+      case "minutes":
+        return (custom.creditMinutes || 0) + Math.floor(actualWorked * rateMultiplier);
+      default:
+        return Math.floor(actualWorked * rateMultiplier);
+    }
+  }
+
   switch (dayType) {
     case "sick":
     case "holiday":
+    case "toil":
       return expectedMinutes;
     case "sick-half":
     case "holiday-half":
     case "flexi-half":
+    case "toil-half":
       return Math.floor(expectedMinutes / 2) + actualWorked;
     case "flexi":
       return 0;
@@ -181,13 +712,408 @@ export const calculateEffectiveWorked = (
   }
 };
 
+export const calculateEffectiveWorked = (
+  entry: DayEntry | undefined,
+  expectedMinutes: number,
+  isWorkingDay = true,
+  nonWorkingDayRate = 1,
+  settings: CreditSettings = {}
+): number => {
+  const credited = calculateCreditedMinutes(
+    entry,
+    expectedMinutes,
+    isWorkingDay,
+    nonWorkingDayRate,
+    settings
+  );
+  return credited - (entry?.toilMinutes || 0);
+};
+
+/**
+ * Check a day against the policy's compliance rules. Days still being tracked are left
+ * alone until clocked out, and core hours only apply to days that credit time worked.
+ */
+export const checkDayRules = (
+  entry: DayEntry | undefined,
+  isWorkingDay: boolean,
+  settings: CreditSettings
+): RuleViolation[] => {
+  const { customDayTypes, rules } = settings;
+  if (!rules || getOpenSession(entry)) return [];
+  const ranges = getSessionRanges(entry, undefined, settings.rounding).filter(
+    (r): r is SessionRange => r !== null
+  );
+  if (ranges.length === 0) return [];
+
+  const violations: RuleViolation[] = [];
+  const worked = calculateWorked(entry, settings);
+  const dayType = entry?.dayType || "normal";
+  const custom = findCustomDayType(dayType, customDayTypes);
+  const countsTimeWorked = custom ? custom.credit === "none" : dayType === "normal";
+
+  if (rules.coreHours && isWorkingDay && countsTimeWorked) {
+    const coreStart = timeToMinutes(rules.coreHours.start);
+    const coreEnd = timeToMinutes(rules.coreHours.end);
+    // Only arriving late and leaving early count; a lunch break within core hours is fine
+    const lateStart = Math.max(0, ranges[0].start - coreStart);
+    const earlyFinish = Math.max(0, coreEnd - ranges[ranges.length - 1].end);
+    const missed = Math.min(coreEnd - coreStart, lateStart + earlyFinish);
+    if (missed > 0) {
+      violations.push({
+        rule: "core-hours",
+        message: `Missed ${formatDuration(missed)} of core hours (${rules.coreHours.start}–${rules.coreHours.end})`,
+      });
+    }
+  }
+
+  if (rules.minBreak && worked > rules.minBreak.afterMinutes) {
+    const breakTaken =
+      (entry?.breakMinutes || 0) + getSessionGaps(ranges) + getAutoBreakMinutes(entry, settings);
+    if (breakTaken < rules.minBreak.breakMinutes) {
+      violations.push({
+        rule: "min-break",
+        message: `${formatDuration(rules.minBreak.breakMinutes)} break needed after ${formatDuration(rules.minBreak.afterMinutes)}`,
+      });
+    }
+  }
+
+  if (rules.maxDailyMinutes !== null && worked > rules.maxDailyMinutes) {
+    violations.push({
+      rule: "max-daily",
+      message: `Worked ${formatDuration(worked)}, over the ${formatDuration(rules.maxDailyMinutes)} daily limit${rules.capAtMax ? "; the extra isn't credited" : ""}`,
+    });
+  }
+
+  return violations;
+};
+
+export const getRosterWeekIndex = (roster: Roster, date: Date): number => {
+  const anchor = parseDateStr(roster.anchorDate);
+  const dayStart = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  const days = Math.round((dayStart.getTime() - anchor.getTime()) / 86400000);
+  const weeks = roster.weeks.length;
+  // Wrap backwards too, so dates before the anchor follow the same rotation
+  return ((Math.floor(days / 7) % weeks) + weeks) % weeks;
+};
+
+/**
+ * Whether a date is a working day and how many minutes are expected on it, taking the
+ * rotating roster into account when one is configured. Public holidays are never working
+ * days, whatever the roster says.
+ */
+export const getDaySchedule = (
+  settings: Settings,
+  date: Date,
+  publicHolidays?: PublicHoliday[]
+): DaySchedule => {
+  const publicHoliday = publicHolidays?.find((h) => h.date === getDateStr(date));
+  if (publicHoliday) return { isWorkingDay: false, expectedMinutes: 0, publicHoliday };
+
+  const day = date.getDay();
+  const pattern =
+    settings.roster && settings.roster.weeks.length > 0
+      ? settings.roster.weeks[getRosterWeekIndex(settings.roster, date)]
+      : settings;
+  return {
+    isWorkingDay: pattern.workingDays.includes(day),
+    expectedMinutes: pattern.expectedMinutesByWeekday?.[day] ?? pattern.expectedMinutesPerDay,
+  };
+};
+
+export const getWeeklyTarget = (
+  settings: Pick<Settings, "workingDays" | "expectedMinutesPerDay" | "expectedMinutesByWeekday">
+): number => {
+  return settings.workingDays.reduce(
+    (sum, day) =>
+      sum + (settings.expectedMinutesByWeekday?.[day] ?? settings.expectedMinutesPerDay),
+    0
+  );
+};
+
+/**
+ * A day's contribution to the flexi balance: credited time less the hours expected that day.
+ */
+export const calculateDayBalance = (
+  entry: DayEntry | undefined,
+  date: Date,
+  settings: Settings,
+  publicHolidays?: PublicHoliday[]
+): number => {
+  const { isWorkingDay, expectedMinutes } = getDaySchedule(settings, date, publicHolidays);
+  const effectiveWorked = calculateEffectiveWorked(
+    entry,
+    expectedMinutes,
+    isWorkingDay,
+    settings.nonWorkingDayRate,
+    settings
+  );
+  return isWorkingDay ? effectiveWorked - expectedMinutes : effectiveWorked;
+};
+
+export const parseDateStr = (dateStr: string): Date => {
+  // Parse in local timezone to avoid UTC offset issues
+  const [year, month, day] = dateStr.split("-").map(Number);
+  return new Date(year, month - 1, day);
+};
+
+export const formatShortDate = (dateStr: string): string =>
+  parseDateStr(dateStr).toLocaleDateString(undefined, { day: "numeric", month: "short" });
+
+type BalanceState = Pick<
+  AppState,
+  "entries" | "adjustments" | "settings" | "settingsHistory" | "publicHolidays"
+>;
+
+// Every dated change to the flexi balance: each day's balance and each manual adjustment
+const getBalanceMovements = ({
+  entries,
+  adjustments,
+  settings,
+  settingsHistory,
+  publicHolidays,
+}: BalanceState): { date: string; minutes: number }[] => {
+  const movements: { date: string; minutes: number }[] = [];
+  Object.entries(entries).forEach(([dateStr, entry]) => {
+    // Skip empty entries (stale data from cleared days)
+    if (!entryHasData(entry)) return;
+    const daySettings = getSettingsForDate(settings, settingsHistory, dateStr);
+    movements.push({
+      date: dateStr,
+      minutes: calculateDayBalance(entry, parseDateStr(dateStr), daySettings, publicHolidays),
+    });
+  });
+
+  adjustments.forEach((a) => {
+    if (a.toil) return;
+    // Adjustments are stamped with a full ISO timestamp
+    const date = a.date.length === 10 ? a.date : getDateStr(new Date(a.date));
+    movements.push({ date, minutes: a.minutes });
+  });
+
+  return movements;
+};
+
+export const calculateOverallBalance = (state: BalanceState, today = new Date()): number => {
+  if (state.settings.settlement) {
+    const ledger = calculateSettlementLedger(state, state.settings.settlement, today);
+    return ledger[ledger.length - 1].closing;
+  }
+  return getBalanceMovements(state).reduce((sum, m) => sum + m.minutes, 0);
+};
+
+/**
+ * Time in lieu is kept apart from flexi: it is earned by banking a day's overtime or by a
+ * TOIL adjustment, and spent by TOIL days, which use up the hours expected on that day.
+ */
+export const calculateToilBalance = ({
+  entries,
+  adjustments,
+  settings,
+  settingsHistory,
+  publicHolidays,
+}: BalanceState): number => {
+  let total = 0;
+  Object.entries(entries).forEach(([dateStr, entry]) => {
+    if (!entry) return;
+    total += entry.toilMinutes || 0;
+    if (entry.dayType !== "toil" && entry.dayType !== "toil-half") return;
+    const daySettings = getSettingsForDate(settings, settingsHistory, dateStr);
+    const { expectedMinutes } = getDaySchedule(daySettings, parseDateStr(dateStr), publicHolidays);
+    total -= entry.dayType === "toil" ? expectedMinutes : Math.floor(expectedMinutes / 2);
+  });
+
+  adjustments.forEach((a) => {
+    if (a.toil) total += a.minutes;
+  });
+
+  return total;
+};
+
+const getSettlementPeriodStart = (settlement: SettlementSettings, index: number): Date => {
+  const anchor = parseDateStr(settlement.anchorDate);
+  const length = Math.max(1, settlement.periodLength);
+  if (settlement.periodUnit === "weeks") {
+    return new Date(anchor.getFullYear(), anchor.getMonth(), anchor.getDate() + index * length * 7);
+  }
+  const month = anchor.getMonth() + index * length;
+  // Anchors late in the month start on the last day of shorter months
+  const lastDay = new Date(anchor.getFullYear(), month + 1, 0).getDate();
+  return new Date(anchor.getFullYear(), month, Math.min(anchor.getDate(), lastDay));
+};
+
+export const getSettlementPeriodIndex = (settlement: SettlementSettings, date: Date): number => {
+  const anchor = parseDateStr(settlement.anchorDate);
+  const dayStart = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  const length = Math.max(1, settlement.periodLength);
+  if (settlement.periodUnit === "weeks") {
+    const days = Math.round((dayStart.getTime() - anchor.getTime()) / 86400000);
+    return Math.floor(days / (length * 7));
+  }
+  const months =
+    (dayStart.getFullYear() - anchor.getFullYear()) * 12 + dayStart.getMonth() - anchor.getMonth();
+  const index = Math.floor(months / length);
+  // Counting months overshoots when the date falls before the anchor's day of the month
+  return getSettlementPeriodStart(settlement, index) > dayStart ? index - 1 : index;
+};
+
+export const getSettlementPeriod = (
+  settlement: SettlementSettings,
+  index: number
+): { start: string; end: string } => {
+  const end = getSettlementPeriodStart(settlement, index + 1);
+  end.setDate(end.getDate() - 1);
+  return { start: getDateStr(getSettlementPeriodStart(settlement, index)), end: getDateStr(end) };
+};
+
+/**
+ * Split the flexi balance into settlement periods, from the first period with any activity
+ * up to the current one. At the end of each closed period the balance is capped at the
+ * carry-over limits; the current period is still open and carries its running total.
+ */
+export const calculateSettlementLedger = (
+  state: BalanceState,
+  settlement: SettlementSettings,
+  today = new Date()
+): SettlementPeriod[] => {
+  const currentIndex = getSettlementPeriodIndex(settlement, today);
+  const movementByPeriod = new Map<number, number>();
+  let first = currentIndex;
+  let last = currentIndex;
+
+  getBalanceMovements(state).forEach(({ date, minutes }) => {
+    const index = getSettlementPeriodIndex(settlement, parseDateStr(date));
+    movementByPeriod.set(index, (movementByPeriod.get(index) || 0) + minutes);
+    first = Math.min(first, index);
+    last = Math.max(last, index);
+  });
+
+  const ledger: SettlementPeriod[] = [];
+  let balance = 0;
+  for (let index = first; index <= last; index++) {
+    const opening = balance;
+    const movement = movementByPeriod.get(index) || 0;
+    const isOpen = index >= currentIndex;
+    let forfeited = 0;
+    let flagged = false;
+    balance += movement;
+
+    if (!isOpen) {
+      const { maxCarryOver, maxDeficit } = settlement;
+      if (maxCarryOver !== null && balance > maxCarryOver) {
+        forfeited = balance - maxCarryOver;
+      } else if (maxDeficit !== null && balance < -maxDeficit) {
+        if (settlement.deficitAction === "forfeit") forfeited = balance + maxDeficit;
+        else flagged = true;
+      }
+      balance -= forfeited;
+    }
+
+    ledger.push({
+      ...getSettlementPeriod(settlement, index),
+      opening,
+      movement,
+      forfeited,
+      closing: balance,
+      flagged,
+      isOpen,
+    });
+  }
+
+  return ledger;
+};
+
 export const getEffectiveExpected = (
   _entry: DayEntry | undefined,
-  expectedMinutes: number,
-  isWorkingDay: boolean
+  settings: Settings,
+  date: Date,
+  publicHolidays?: PublicHoliday[]
 ): number => {
-  if (!isWorkingDay) return 0;
-  return expectedMinutes;
+  const { isWorkingDay, expectedMinutes } = getDaySchedule(settings, date, publicHolidays);
+  return isWorkingDay ? expectedMinutes : 0;
+};
+
+/**
+ * The date whose entry has an open session: today, or yesterday for a shift that has run
+ * past midnight. Only one day can be live at a time.
+ */
+export const getLiveTrackingDate = (
+  entries: Record<string, DayEntry>,
+  now: Date = new Date()
+): string | null => {
+  const todayStr = getDateStr(now);
+  if (getOpenSession(entries[todayStr])) return todayStr;
+  const yesterday = new Date(now);
+  yesterday.setDate(yesterday.getDate() - 1);
+  const yesterdayStr = getDateStr(yesterday);
+  if (getOpenSession(entries[yesterdayStr])) return yesterdayStr;
+  return null;
+};
+
+/**
+ * The usual break on a worked day: the median of the typed breaks and gaps between sessions
+ * over the last `sampleDays` finished days before `beforeDate` that had time worked.
+ */
+export const getTypicalBreak = (
+  entries: Record<string, DayEntry>,
+  beforeDate: string,
+  sampleDays = 20
+): number => {
+  const breaks = Object.keys(entries)
+    .filter((dateStr) => dateStr < beforeDate)
+    .sort()
+    .reverse()
+    .map((dateStr) => entries[dateStr])
+    .filter((entry) => !getOpenSession(entry) && calculateWorked(entry) > 0)
+    .slice(0, sampleDays)
+    .map((entry) => (entry.breakMinutes || 0) + getSessionGaps(getSessionRanges(entry)))
+    .sort((a, b) => a - b);
+  if (breaks.length === 0) return 0;
+  const mid = Math.floor(breaks.length / 2);
+  return breaks.length % 2 ? breaks[mid] : Math.round((breaks[mid - 1] + breaks[mid]) / 2);
+};
+
+/**
+ * When to clock out of a live day for its balance to reach `target`, in minutes from
+ * midnight at the start of the entry's date. The rest of the typical break is assumed to be
+ * taken first, and an automatic break the extra time brings in is allowed for. Null when
+ * more time worked won't get there within a day, e.g. on a full day of leave.
+ */
+export const findLeaveTime = (
+  entry: DayEntry,
+  date: Date,
+  now: Date,
+  target: number,
+  settings: Settings,
+  publicHolidays: PublicHoliday[] | undefined,
+  typicalBreak: number
+): number | null => {
+  const dayStart = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const daysSince = Math.round((today.getTime() - dayStart.getTime()) / 86400000);
+  const nowMins = daysSince * MINUTES_PER_DAY + now.getHours() * 60 + now.getMinutes();
+
+  // A paused day is taken to resume now, with whatever break is still to come
+  const resumed = getOpenBreak(entry) ? resumeTracking(entry, minutesToTime(nowMins)) : entry;
+  const breakTaken =
+    (resumed.breakMinutes || 0) + getSessionGaps(getSessionRanges(resumed, nowMins));
+  const planned: DayEntry = {
+    ...resumed,
+    breakMinutes: (resumed.breakMinutes || 0) + Math.max(0, typicalBreak - breakTaken),
+  };
+
+  const { isWorkingDay } = getDaySchedule(settings, date, publicHolidays);
+  const rate = isWorkingDay ? 1 : settings.nonWorkingDayRate;
+  const balanceAt = (mins: number) =>
+    calculateDayBalance(clockOut(planned, minutesToTime(mins)), date, settings, publicHolidays);
+
+  // Credit grows at the day's rate, less any automatic break, so a few steps settle it
+  let mins = nowMins;
+  for (let step = 0; step < 20 && mins < nowMins + MINUTES_PER_DAY; step++) {
+    const shortfall = target - balanceAt(mins);
+    if (shortfall <= 0) return mins;
+    mins += rate > 0 ? Math.max(1, Math.ceil(shortfall / rate)) : shortfall;
+  }
+  return null;
 };
 
 export const getCurrentTimeStr = (): string => {
@@ -195,31 +1121,258 @@ export const getCurrentTimeStr = (): string => {
   return `${now.getHours().toString().padStart(2, "0")}:${now.getMinutes().toString().padStart(2, "0")}`;
 };
 
-export const calculateUsedLeaveDays = (
-  entries: Record<string, DayEntry>,
-  leaveBalance: LeaveBalance | undefined
+// How much of an allowance one day of the given type uses up
+const getAllowanceUsage = (
+  dayType: DayType,
+  allowance: LeaveAllowance,
+  customDayTypes: CustomDayType[] | undefined
 ): number => {
-  if (!leaveBalance) return 0;
+  // Built-in half days count against the allowance linked to their full-day type
+  const fullDayType = dayType.endsWith("-half") ? (dayType.slice(0, -5) as DayType) : dayType;
+  if (!allowance.dayTypes.includes(fullDayType)) return 0;
+  if (fullDayType !== dayType) return 0.5;
+  return findCustomDayType(dayType, customDayTypes)?.credit === "half" ? 0.5 : 1;
+};
+
+// The full entitlement per period, in days or, for hours-based allowances, minutes
+export const getAllowanceTotal = (allowance: LeaveAllowance): number =>
+  allowance.unit === "hours" ? allowance.totalMinutes || 0 : allowance.totalDays;
+
+type LeaveState = Pick<AppState, "settings" | "settingsHistory" | "publicHolidays">;
+
+/**
+ * Leave a day uses up from an allowance: a day or half day, or for hours-based allowances
+ * the hours expected that day (halved for half days) unless the entry records its own amount.
+ */
+const getLeaveUsage = (
+  entry: DayEntry,
+  dateStr: string,
+  allowance: LeaveAllowance,
+  { settings, settingsHistory, publicHolidays }: LeaveState
+): number => {
+  const usage = getAllowanceUsage(entry.dayType || "normal", allowance, settings.customDayTypes);
+  if (usage === 0 || allowance.unit !== "hours") return usage;
+  if (entry.leaveMinutes !== undefined) return entry.leaveMinutes;
+  const daySettings = getSettingsForDate(settings, settingsHistory, dateStr);
+  const { isWorkingDay, expectedMinutes } = getDaySchedule(
+    daySettings,
+    parseDateStr(dateStr),
+    publicHolidays
+  );
+  return isWorkingDay ? Math.round(expectedMinutes * usage) : 0;
+};
 
-  let usedDays = 0;
-  const periodStart = new Date(leaveBalance.periodStart);
-  const periodEnd = new Date(leaveBalance.periodEnd);
+// The minutes of leave a day uses from the first hours-based allowance its type counts against
+export const getDayLeaveMinutes = (
+  entry: DayEntry | undefined,
+  dateStr: string,
+  allowances: LeaveAllowance[],
+  state: LeaveState
+): number | undefined => {
+  if (!entry?.dayType || state.publicHolidays?.some((h) => h.date === dateStr)) return undefined;
+  const allowance = allowances.find(
+    (a) =>
+      a.unit === "hours" &&
+      getAllowanceUsage(entry.dayType || "normal", a, state.settings.customDayTypes) > 0
+  );
+  return allowance && getLeaveUsage(entry, dateStr, allowance, state);
+};
+
+// Leave used within the allowance's period: days, or minutes for hours-based allowances
+export const calculateUsedLeave = (
+  entries: Record<string, DayEntry>,
+  allowance: LeaveAllowance,
+  state: LeaveState
+): number => {
+  let used = 0;
 
   Object.entries(entries).forEach(([dateStr, entry]) => {
     if (!entry?.dayType) return;
 
-    const [year, month, day] = dateStr.split("-").map(Number);
-    const entryDate = new Date(year, month - 1, day);
+    // Check if entry is within the allowance period
+    if (dateStr < allowance.periodStart || dateStr > allowance.periodEnd) return;
+
+    // Public holidays are days off anyway, so a leave preset on one doesn't use leave
+    if (state.publicHolidays?.some((h) => h.date === dateStr)) return;
 
-    // Check if entry is within leave period
-    if (entryDate < periodStart || entryDate > periodEnd) return;
+    used += getLeaveUsage(entry, dateStr, allowance, state);
+  });
+
+  return used;
+};
 
-    if (entry.dayType === "holiday") {
-      usedDays += 1;
-    } else if (entry.dayType === "holiday-half") {
-      usedDays += 0.5;
+const addYears = (dateStr: string, years: number): string => {
+  const date = parseDateStr(dateStr);
+  const shifted = new Date(date.getFullYear() + years, date.getMonth(), date.getDate());
+  // 29 February falls back to the 28th in other years
+  if (shifted.getMonth() !== date.getMonth()) shifted.setDate(0);
+  return getDateStr(shifted);
+};
+
+const daysBetween = (from: string, to: string): number =>
+  Math.round((parseDateStr(to).getTime() - parseDateStr(from).getTime()) / 86400000);
+
+// Leave in the allowance's own unit: days, or hours and minutes
+export const formatLeaveAmount = (
+  amount: number,
+  unit: LeaveAllowance["unit"],
+  decimal = false
+): string => {
+  if (unit !== "hours") return amount % 1 === 0 ? amount.toString() : amount.toFixed(1);
+  const duration = decimal ? formatDurationDecimal : formatDuration;
+  return `${amount < 0 ? "-" : ""}${duration(Math.abs(amount))}`;
+};
+
+const roundToHalf = (days: number): number => Math.round(days * 2) / 2;
+
+/**
+ * Where an allowance stands in the period containing `asOf`. Allowances that renew yearly
+ * start a new period each year, opening with the unused days carried over (up to the limit).
+ * Joining partway through a period pro-rates that period's entitlement, and monthly accrual
+ * builds the entitlement up at the end of each complete month.
+ */
+export const calculateLeaveStats = (
+  entries: Record<string, DayEntry>,
+  allowance: LeaveAllowance,
+  state: LeaveState,
+  asOf = new Date()
+): LeavePeriodStats => {
+  const asOfStr = getDateStr(asOf);
+  const inHours = allowance.unit === "hours";
+  const total = getAllowanceTotal(allowance);
+  // Leave in days is rounded to the nearest half day, and in hours to the minute
+  const round = inHours ? Math.round : roundToHalf;
+  let currentIndex = 0;
+  if (allowance.renewsYearly) {
+    while (addYears(allowance.periodEnd, currentIndex) < asOfStr) currentIndex++;
+  }
+
+  let carriedOver = 0;
+  for (let index = 0; ; index++) {
+    const periodStart = addYears(allowance.periodStart, index);
+    const periodEnd = addYears(allowance.periodEnd, index);
+    const periodDays = daysBetween(periodStart, periodEnd) + 1;
+
+    // Entitlement only counts from the day employment started
+    const { employmentStart } = allowance;
+    const accrualStart =
+      employmentStart && employmentStart > periodStart ? employmentStart : periodStart;
+    const employedDays = Math.max(0, daysBetween(accrualStart, periodEnd) + 1);
+    const base = round((total * employedDays) / periodDays);
+
+    const entitlement = base + carriedOver;
+    const used = calculateUsedLeave(entries, { ...allowance, periodStart, periodEnd }, state);
+
+    if (index === currentIndex) {
+      let accrued = entitlement;
+      if (allowance.accrual === "monthly" && asOfStr <= periodEnd && employedDays > 0) {
+        const start = parseDateStr(accrualStart);
+        const end = parseDateStr(periodEnd);
+        const totalMonths = Math.max(
+          1,
+          Math.round(
+            (end.getFullYear() - start.getFullYear()) * 12 + end.getMonth() - start.getMonth() + 1
+          )
+        );
+        let months =
+          (asOf.getFullYear() - start.getFullYear()) * 12 + asOf.getMonth() - start.getMonth();
+        // A month counts once its last day has passed
+        if (asOf.getDate() < start.getDate()) months--;
+        months = Math.min(totalMonths, Math.max(0, months));
+        accrued = round((base * months) / totalMonths) + carriedOver;
+      }
+      return {
+        periodStart,
+        periodEnd,
+        carriedOver,
+        entitlement,
+        accrued,
+        used,
+        remaining: accrued - used,
+      };
     }
+
+    carriedOver = Math.min(Math.max(0, entitlement - used), allowance.maxCarryOver ?? 0);
+  }
+};
+
+// The working days between two dates, inclusive, which are the days a planned absence covers
+export const getWorkingDatesBetween = (
+  { settings, settingsHistory, publicHolidays }: LeaveState,
+  from: string,
+  to: string
+): string[] => {
+  const dates: string[] = [];
+  for (let date = parseDateStr(from); getDateStr(date) <= to; date.setDate(date.getDate() + 1)) {
+    const dateStr = getDateStr(date);
+    const daySettings = getSettingsForDate(settings, settingsHistory, dateStr);
+    if (getDaySchedule(daySettings, date, publicHolidays).isWorkingDay) dates.push(dateStr);
+  }
+  return dates;
+};
+
+// Actual entries up to a date, with the planned days from today onwards filled in where
+// nothing has been recorded yet
+const getProjectedEntries = (
+  { entries, plannedEntries }: Pick<AppState, "entries" | "plannedEntries">,
+  date: string
+): Record<string, DayEntry> => {
+  const todayStr = getDateStr(new Date());
+  const projected: Record<string, DayEntry> = {};
+  Object.entries(entries).forEach(([dateStr, entry]) => {
+    if (dateStr <= date) projected[dateStr] = entry;
+  });
+  Object.entries(plannedEntries || {}).forEach(([dateStr, entry]) => {
+    if (dateStr < todayStr || dateStr > date || entryHasData(entries[dateStr])) return;
+    projected[dateStr] = entry;
   });
+  return projected;
+};
 
-  return usedDays;
+/**
+ * Project the flexi balance and every leave allowance forward to a date, as if the planned
+ * days up to it had been taken. Unplanned working days are assumed to be worked to the hours
+ * expected, so they leave the flexi balance unchanged.
+ */
+export const calculateProjection = (state: AppState, date: string): Projection => {
+  const entries = getProjectedEntries(state, date);
+  const asOf = parseDateStr(date);
+  return {
+    date,
+    flexiBalance: calculateOverallBalance({ ...state, entries }, asOf),
+    leave: (state.leaveAllowances || []).map((allowance) => ({
+      id: allowance.id,
+      name: allowance.name,
+      unit: allowance.unit,
+      ...calculateLeaveStats(entries, allowance, state, asOf),
+    })),
+  };
+};
+
+// For each allowance, the first planned day that would leave less than nothing remaining
+export const findPlanOverdrafts = (state: AppState): PlanOverdraft[] => {
+  const plannedDates = Object.keys(state.plannedEntries || {}).sort();
+  const overdrafts: PlanOverdraft[] = [];
+  (state.leaveAllowances || []).forEach((allowance) => {
+    if (getAllowanceTotal(allowance) <= 0) return;
+    for (const date of plannedDates) {
+      const entries = getProjectedEntries(state, date);
+      const dayType = entries[date]?.dayType;
+      if (!dayType || !getAllowanceUsage(dayType, allowance, state.settings.customDayTypes)) {
+        continue;
+      }
+      const { remaining } = calculateLeaveStats(entries, allowance, state, parseDateStr(date));
+      if (remaining < 0) {
+        overdrafts.push({
+          allowanceId: allowance.id,
+          name: allowance.name,
+          unit: allowance.unit,
+          date,
+          remaining,
+        });
+        break;
+      }
+    }
+  });
+  return overdrafts;
 };
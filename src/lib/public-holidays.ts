@@ -0,0 +1,186 @@
+import type { PublicHoliday } from "@/types/flexi-tracker";
+import { getDateStr } from "@/lib/flexi-tracker-utils";
+
+export interface PublicHolidayRegion {
+  id: string;
+  label: string;
+  holidays: PublicHoliday[];
+}
+
+const toHolidays = (list: [string, string][]): PublicHoliday[] =>
+  list.map(([date, name]) => ({ date, name }));
+
+// UK bank holidays as published on gov.uk, including substitute days
+export const PUBLIC_HOLIDAY_REGIONS: PublicHolidayRegion[] = [
+  {
+    id: "england-and-wales",
+    label: "England & Wales",
+    holidays: toHolidays([
+      ["2025-01-01", "New Year's Day"],
+      ["2025-04-18", "Good Friday"],
+      ["2025-04-21", "Easter Monday"],
+      ["2025-05-05", "Early May bank holiday"],
+      ["2025-05-26", "Spring bank holiday"],
+      ["2025-08-25", "Summer bank holiday"],
+      ["2025-12-25", "Christmas Day"],
+      ["2025-12-26", "Boxing Day"],
+      ["2026-01-01", "New Year's Day"],
+      ["2026-04-03", "Good Friday"],
+      ["2026-04-06", "Easter Monday"],
+      ["2026-05-04", "Early May bank holiday"],
+      ["2026-05-25", "Spring bank holiday"],
+      ["2026-08-31", "Summer bank holiday"],
+      ["2026-12-25", "Christmas Day"],
+      ["2026-12-28", "Boxing Day (substitute day)"],
+      ["2027-01-01", "New Year's Day"],
+      ["2027-03-26", "Good Friday"],
+      ["2027-03-29", "Easter Monday"],
+      ["2027-05-03", "Early May bank holiday"],
+      ["2027-05-31", "Spring bank holiday"],
+      ["2027-08-30", "Summer bank holiday"],
+      ["2027-12-27", "Christmas Day (substitute day)"],
+      ["2027-12-28", "Boxing Day (substitute day)"],
+    ]),
+  },
+  {
+    id: "scotland",
+    label: "Scotland",
+    holidays: toHolidays([
+      ["2025-01-01", "New Year's Day"],
+      ["2025-01-02", "2nd January"],
+      ["2025-04-18", "Good Friday"],
+      ["2025-05-05", "Early May bank holiday"],
+      ["2025-05-26", "Spring bank holiday"],
+      ["2025-08-04", "Summer bank holiday"],
+      ["2025-12-01", "St Andrew's Day (substitute day)"],
+      ["2025-12-25", "Christmas Day"],
+      ["2025-12-26", "Boxing Day"],
+      ["2026-01-01", "New Year's Day"],
+      ["2026-01-02", "2nd January"],
+      ["2026-04-03", "Good Friday"],
+      ["2026-05-04", "Early May bank holiday"],
+      ["2026-05-25", "Spring bank holiday"],
+      ["2026-08-03", "Summer bank holiday"],
+      ["2026-11-30", "St Andrew's Day"],
+      ["2026-12-25", "Christmas Day"],
+      ["2026-12-28", "Boxing Day (substitute day)"],
+      ["2027-01-01", "New Year's Day"],
+      ["2027-01-04", "2nd January (substitute day)"],
+      ["2027-03-26", "Good Friday"],
+      ["2027-05-03", "Early May bank holiday"],
+      ["2027-05-31", "Spring bank holiday"],
+      ["2027-08-02", "Summer bank holiday"],
+      ["2027-11-30", "St Andrew's Day"],
+      ["2027-12-27", "Christmas Day (substitute day)"],
+      ["2027-12-28", "Boxing Day (substitute day)"],
+    ]),
+  },
+  {
+    id: "northern-ireland",
+    label: "Northern Ireland",
+    holidays: toHolidays([
+      ["2025-01-01", "New Year's Day"],
+      ["2025-03-17", "St Patrick's Day"],
+      ["2025-04-18", "Good Friday"],
+      ["2025-04-21", "Easter Monday"],
+      ["2025-05-05", "Early May bank holiday"],
+      ["2025-05-26", "Spring bank holiday"],
+      ["2025-07-14", "Battle of the Boyne (substitute day)"],
+      ["2025-08-25", "Summer bank holiday"],
+      ["2025-12-25", "Christmas Day"],
+      ["2025-12-26", "Boxing Day"],
+      ["2026-01-01", "New Year's Day"],
+      ["2026-03-17", "St Patrick's Day"],
+      ["2026-04-03", "Good Friday"],
+      ["2026-04-06", "Easter Monday"],
+      ["2026-05-04", "Early May bank holiday"],
+      ["2026-05-25", "Spring bank holiday"],
+      ["2026-07-13", "Battle of the Boyne (substitute day)"],
+      ["2026-08-31", "Summer bank holiday"],
+      ["2026-12-25", "Christmas Day"],
+      ["2026-12-28", "Boxing Day (substitute day)"],
+      ["2027-01-01", "New Year's Day"],
+      ["2027-03-17", "St Patrick's Day"],
+      ["2027-03-26", "Good Friday"],
+      ["2027-03-29", "Easter Monday"],
+      ["2027-05-03", "Early May bank holiday"],
+      ["2027-05-31", "Spring bank holiday"],
+      ["2027-07-12", "Battle of the Boyne"],
+      ["2027-08-30", "Summer bank holiday"],
+      ["2027-12-27", "Christmas Day (substitute day)"],
+      ["2027-12-28", "Boxing Day (substitute day)"],
+    ]),
+  },
+];
+
+export function mergePublicHolidays(
+  existing: PublicHoliday[],
+  incoming: PublicHoliday[]
+): PublicHoliday[] {
+  // One holiday per date - incoming names replace existing ones
+  const byDate = new Map<string, PublicHoliday>();
+  for (const holiday of existing) byDate.set(holiday.date, holiday);
+  for (const holiday of incoming) byDate.set(holiday.date, holiday);
+  return Array.from(byDate.values()).sort((a, b) => a.date.localeCompare(b.date));
+}
+
+function unescapeIcsText(value: string): string {
+  return value
+    .replace(/\\n/gi, " ")
+    .replace(/\\([,;\\])/g, "$1")
+    .trim();
+}
+
+function parseIcsDate(value: string): Date | null {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (!match) return null;
+  return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+}
+
+/**
+ * Read all-day events from an iCalendar (.ics) file. Multi-day events are expanded into
+ * one holiday per day; DTEND is exclusive as per RFC 5545.
+ */
+export function parseIcsHolidays(text: string): PublicHoliday[] {
+  // Unfold continuation lines (lines starting with whitespace belong to the previous one)
+  const lines = text.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+  const holidays: PublicHoliday[] = [];
+
+  let inEvent = false;
+  let start: Date | null = null;
+  let end: Date | null = null;
+  let summary = "";
+
+  for (const line of lines) {
+    if (line === "BEGIN:VEVENT") {
+      inEvent = true;
+      start = null;
+      end = null;
+      summary = "";
+      continue;
+    }
+    if (!inEvent) continue;
+
+    if (line === "END:VEVENT") {
+      inEvent = false;
+      if (!start) continue;
+      const stop = new Date(end && end > start ? end : start);
+      if (stop.getTime() === start.getTime()) stop.setDate(stop.getDate() + 1);
+      for (const d = new Date(start); d < stop; d.setDate(d.getDate() + 1)) {
+        holidays.push({ date: getDateStr(d), name: summary || "Public holiday" });
+      }
+      continue;
+    }
+
+    const separator = line.indexOf(":");
+    if (separator === -1) continue;
+    const name = line.slice(0, separator).split(";")[0].toUpperCase();
+    const value = line.slice(separator + 1);
+
+    if (name === "DTSTART") start = parseIcsDate(value);
+    else if (name === "DTEND") end = parseIcsDate(value);
+    else if (name === "SUMMARY") summary = unescapeIcsText(value);
+  }
+
+  return mergePublicHolidays([], holidays);
+}
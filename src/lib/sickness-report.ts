@@ -0,0 +1,118 @@
+import type { AppState } from "@/types/flexi-tracker";
+import {
+  getDateStr,
+  getDaySchedule,
+  getSettingsForDate,
+  parseDateStr,
+} from "@/lib/flexi-tracker-utils";
+
+export interface SickDay {
+  date: string; // YYYY-MM-DD
+  days: number; // 1, or 0.5 for a half day
+}
+
+// An unbroken run of sickness; non-working days in between don't break it
+export interface SicknessEpisode {
+  start: string; // YYYY-MM-DD
+  end: string; // YYYY-MM-DD
+  days: number;
+  sickDays: SickDay[];
+}
+
+export interface SicknessReport {
+  episodes: SicknessEpisode[];
+  totalDays: number;
+  // Bradford factor over the 52 weeks to the report date: episodes² × days
+  bradford: { from: string; episodes: number; days: number; score: number };
+}
+
+type SicknessState = Pick<AppState, "entries" | "settings" | "settingsHistory" | "publicHolidays">;
+
+// Whether every day strictly between two dates is a non-working day
+function onlyNonWorkingDaysBetween(
+  { settings, settingsHistory, publicHolidays }: SicknessState,
+  from: string,
+  to: string
+): boolean {
+  const date = parseDateStr(from);
+  date.setDate(date.getDate() + 1);
+  for (; getDateStr(date) < to; date.setDate(date.getDate() + 1)) {
+    const daySettings = getSettingsForDate(settings, settingsHistory, getDateStr(date));
+    if (getDaySchedule(daySettings, date, publicHolidays).isWorkingDay) return false;
+  }
+  return true;
+}
+
+export function getSicknessEpisodes(state: SicknessState): SicknessEpisode[] {
+  const sickDays: SickDay[] = Object.entries(state.entries)
+    .filter(([, entry]) => entry?.dayType === "sick" || entry?.dayType === "sick-half")
+    .map(([date, entry]) => ({ date, days: entry.dayType === "sick" ? 1 : 0.5 }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  const episodes: SicknessEpisode[] = [];
+  sickDays.forEach((sickDay) => {
+    const current = episodes[episodes.length - 1];
+    if (current && onlyNonWorkingDaysBetween(state, current.end, sickDay.date)) {
+      current.end = sickDay.date;
+      current.days += sickDay.days;
+      current.sickDays.push(sickDay);
+    } else {
+      episodes.push({
+        start: sickDay.date,
+        end: sickDay.date,
+        days: sickDay.days,
+        sickDays: [sickDay],
+      });
+    }
+  });
+  return episodes;
+}
+
+/**
+ * Sickness episodes and totals, with a Bradford factor over the rolling 52 weeks to `asOf`.
+ * An episode that started before the window counts if any of its days fall inside it.
+ */
+export function buildSicknessReport(state: SicknessState, asOf = new Date()): SicknessReport {
+  const episodes = getSicknessEpisodes(state);
+  const to = getDateStr(asOf);
+  const fromDate = new Date(asOf.getFullYear(), asOf.getMonth(), asOf.getDate() - 52 * 7 + 1);
+  const from = getDateStr(fromDate);
+
+  let windowEpisodes = 0;
+  let windowDays = 0;
+  episodes.forEach((episode) => {
+    const inWindow = episode.sickDays.filter((d) => d.date >= from && d.date <= to);
+    if (inWindow.length === 0) return;
+    windowEpisodes++;
+    windowDays += inWindow.reduce((sum, d) => sum + d.days, 0);
+  });
+
+  return {
+    episodes,
+    totalDays: episodes.reduce((sum, e) => sum + e.days, 0),
+    bradford: {
+      from,
+      episodes: windowEpisodes,
+      days: windowDays,
+      score: windowEpisodes * windowEpisodes * windowDays,
+    },
+  };
+}
+
+// One row per sick day, numbered by episode, for spreadsheets and HR systems
+export function sicknessReportToCsv(report: SicknessReport): string {
+  const rows = [["Episode", "Date", "Days", "Episode start", "Episode end", "Episode days"]];
+  report.episodes.forEach((episode, index) => {
+    episode.sickDays.forEach((sickDay) => {
+      rows.push([
+        String(index + 1),
+        sickDay.date,
+        String(sickDay.days),
+        episode.start,
+        episode.end,
+        String(episode.days),
+      ]);
+    });
+  });
+  return rows.map((row) => row.join(",")).join("\n") + "\n";
+}
@@ -0,0 +1,46 @@
+import type { RecordStamp, Settings, SettingsStamps } from "@/types/flexi-tracker";
+
+// Per-device values, kept apart from the app data so they never sync
+const DEVICE_ID_KEY = "flexi-tracker-device-id";
+const ALWAYS_ASK_KEY = "flexi-tracker-sync-always-ask";
+
+export function getDeviceId(): string {
+  let id = localStorage.getItem(DEVICE_ID_KEY);
+  if (!id) {
+    id =
+      typeof crypto.randomUUID === "function"
+        ? crypto.randomUUID()
+        : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+    localStorage.setItem(DEVICE_ID_KEY, id);
+  }
+  return id;
+}
+
+// Mark a record as changed now, on this device
+export function createStamp(): RecordStamp {
+  return { modifiedAt: new Date().toISOString(), deviceId: getDeviceId() };
+}
+
+// Whether syncs should ask about every differing day, rather than keep the newer edit
+export function getSyncAlwaysAsk(): boolean {
+  return localStorage.getItem(ALWAYS_ASK_KEY) === "true";
+}
+
+export function setSyncAlwaysAsk(alwaysAsk: boolean): void {
+  localStorage.setItem(ALWAYS_ASK_KEY, String(alwaysAsk));
+}
+
+// Stamp the settings fields an edit changed, leaving the others' stamps as they were
+export function stampSettingsChanges(
+  stamps: SettingsStamps | undefined,
+  before: Settings,
+  after: Settings
+): SettingsStamps {
+  const stamp = createStamp();
+  const next: SettingsStamps = { ...stamps };
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]) as Set<keyof Settings>;
+  fields.forEach((field) => {
+    if (JSON.stringify(before[field]) !== JSON.stringify(after[field])) next[field] = stamp;
+  });
+  return next;
+}
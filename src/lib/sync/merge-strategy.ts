@@ -1,31 +1,145 @@
 import type {
+  AllowanceConflict,
   DayEntry,
   Adjustment,
   Settings,
-  LeaveBalance,
+  LeaveAllowance,
+  SettingsChange,
   SyncPayload,
   ConflictEntry,
   SettingsConflict,
   SyncResult,
+  RecordStamp,
+  SettingsStamps,
+  SyncSnapshot,
+  Tombstone,
 } from "@/types/flexi-tracker";
+import {
+  entryHasData,
+  getSessions,
+  migrateLeaveBalance,
+  normalizeEntries,
+  pruneTombstones,
+} from "@/lib/flexi-tracker-utils";
+import { mergePublicHolidays } from "@/lib/public-holidays";
+
+export interface MergeOptions {
+  // Ask about every record that differs, as before records were stamped
+  alwaysAsk?: boolean;
+  // When this device last finished a sync with the other one, if ever
+  lastSyncedAt?: string;
+  // The data as it stood at the end of that sync
+  base?: SyncSnapshot;
+}
+
+/**
+ * Which side's edit to keep without asking. Only one side can have changed a record since
+ * the two devices last synced, so the newer stamp wins; an unstamped record hasn't changed
+ * since. When both changed, or the devices have never synced, it's a real conflict and null
+ * is returned.
+ */
+function pickNewer(
+  local: RecordStamp | undefined,
+  remote: RecordStamp | undefined,
+  { alwaysAsk, lastSyncedAt }: MergeOptions
+): "local" | "remote" | null {
+  if (alwaysAsk || !lastSyncedAt) return null;
+  const localAt = local?.modifiedAt ?? "";
+  const remoteAt = remote?.modifiedAt ?? "";
+  if (localAt > lastSyncedAt && remoteAt > lastSyncedAt) return null;
+  return remoteAt > localAt ? "remote" : "local";
+}
+
+/**
+ * Whether the other device changed a record since the two last synced. The snapshot is what
+ * this device settled on, and the other one may have ended that sync differently (keeping
+ * its own version of a conflict, or closing before it finished), so a copy there that differs
+ * from the snapshot only counts as changed when it was stamped after the sync.
+ */
+function changedSinceSync(stamp: RecordStamp | undefined, { lastSyncedAt }: MergeOptions): boolean {
+  return !!lastSyncedAt && (stamp?.modifiedAt ?? "") > lastSyncedAt;
+}
+
+function sessionsAreEqual(a: DayEntry, b: DayEntry): boolean {
+  const sessionsA = getSessions(a);
+  const sessionsB = getSessions(b);
+  if (sessionsA.length !== sessionsB.length) return false;
+  return sessionsA.every(
+    (s, i) =>
+      (s.start || null) === (sessionsB[i].start || null) &&
+      (s.end || null) === (sessionsB[i].end || null)
+  );
+}
 
 function entriesAreEqual(a: DayEntry, b: DayEntry): boolean {
   return (
-    a.startTime === b.startTime &&
-    a.endTime === b.endTime &&
+    sessionsAreEqual(a, b) &&
     a.breakMinutes === b.breakMinutes &&
-    a.dayType === b.dayType
+    JSON.stringify(a.breaks ?? []) === JSON.stringify(b.breaks ?? []) &&
+    !!a.noAutoBreak === !!b.noAutoBreak &&
+    a.dayType === b.dayType &&
+    (a.toilMinutes || 0) === (b.toilMinutes || 0) &&
+    a.leaveMinutes === b.leaveMinutes
   );
 }
 
 function entryIsEmpty(entry: DayEntry | undefined): boolean {
   if (!entry) return true;
-  return !entry.startTime && !entry.endTime && !entry.breakMinutes && !entry.dayType;
+  return !entryHasData(entry) && !entry.breakMinutes;
+}
+
+function sameEntry(a: DayEntry | undefined, b: DayEntry | undefined): boolean {
+  if (!a || !b || entryIsEmpty(a) || entryIsEmpty(b)) return entryIsEmpty(a) && entryIsEmpty(b);
+  return entriesAreEqual(a, b);
+}
+
+/**
+ * The day to keep when the two sides differ, or null when the user has to choose. With a
+ * snapshot of the last sync, a day only one side changed since takes that side's version,
+ * including a removal here, and days both sides changed are conflicts. Without one, the
+ * newer edit wins where stamps can tell.
+ */
+function mergeEntry(
+  date: string,
+  localEntry: DayEntry | undefined,
+  remoteEntry: DayEntry | undefined,
+  options: MergeOptions
+): DayEntry | undefined | null {
+  const localEmpty = entryIsEmpty(localEntry);
+  const remoteEmpty = entryIsEmpty(remoteEntry);
+  if (localEmpty && remoteEmpty) return undefined;
+
+  const base = options.alwaysAsk ? undefined : options.base;
+  const baseEntry = base?.entries[date];
+
+  if (localEmpty || remoteEmpty) {
+    // A day cleared here and left alone there was deleted; otherwise keep the data. Days
+    // cleared on the other device arrive as tombstones, as it may never have had this one
+    if (localEmpty && !entryIsEmpty(baseEntry) && sameEntry(remoteEntry, baseEntry)) {
+      return undefined;
+    }
+    return localEmpty ? remoteEntry : localEntry;
+  }
+
+  if (sameEntry(localEntry, remoteEntry)) return localEntry;
+
+  if (base) {
+    if (sameEntry(remoteEntry, baseEntry)) return localEntry;
+    if (sameEntry(localEntry, baseEntry) && changedSinceSync(remoteEntry?.modified, options)) {
+      return remoteEntry;
+    }
+    return null;
+  }
+
+  const newer = pickNewer(localEntry?.modified, remoteEntry?.modified, options);
+  if (newer === null) return null;
+  return newer === "remote" ? remoteEntry : localEntry;
 }
 
 export function detectConflicts(
   local: Record<string, DayEntry>,
-  remote: Record<string, DayEntry>
+  remote: Record<string, DayEntry>,
+  options: MergeOptions = {}
 ): ConflictEntry[] {
   const conflicts: ConflictEntry[] = [];
   const allDates = new Set([...Object.keys(local), ...Object.keys(remote)]);
@@ -34,11 +148,8 @@ export function detectConflicts(
     const localEntry = local[date];
     const remoteEntry = remote[date];
 
-    const localEmpty = entryIsEmpty(localEntry);
-    const remoteEmpty = entryIsEmpty(remoteEntry);
-
-    // Both have data and they differ = conflict
-    if (!localEmpty && !remoteEmpty && !entriesAreEqual(localEntry, remoteEntry)) {
+    // Both changed the day in different ways, or it can't be told which edit is the newer
+    if (mergeEntry(date, localEntry, remoteEntry, options) === null) {
       conflicts.push({
         date,
         local: localEntry,
@@ -53,7 +164,8 @@ export function detectConflicts(
 export function mergeNonConflicting(
   local: Record<string, DayEntry>,
   remote: Record<string, DayEntry>,
-  conflicts: ConflictEntry[]
+  conflicts: ConflictEntry[],
+  options: MergeOptions = {}
 ): Record<string, DayEntry> {
   const conflictDates = new Set(conflicts.map((c) => c.date));
   const merged: Record<string, DayEntry> = {};
@@ -66,20 +178,8 @@ export function mergeNonConflicting(
     const localEntry = local[date];
     const remoteEntry = remote[date];
 
-    const localEmpty = entryIsEmpty(localEntry);
-    const remoteEmpty = entryIsEmpty(remoteEntry);
-
-    if (!localEmpty && remoteEmpty) {
-      // Only local has data
-      merged[date] = localEntry;
-    } else if (localEmpty && !remoteEmpty) {
-      // Only remote has data
-      merged[date] = remoteEntry;
-    } else if (!localEmpty && !remoteEmpty) {
-      // Both have same data (not a conflict)
-      merged[date] = localEntry;
-    }
-    // If both empty, skip
+    const entry = mergeEntry(date, localEntry, remoteEntry, options);
+    if (entry) merged[date] = entry;
   }
 
   return merged;
@@ -106,7 +206,7 @@ export function applyResolutions(
 }
 
 export function mergeAdjustments(local: Adjustment[], remote: Adjustment[]): Adjustment[] {
-  // Union by ID - adjustments have unique IDs so no conflicts possible
+  // Union by ID; where both have the same adjustment the newer edit wins, falling back to local
   const byId = new Map<string, Adjustment>();
 
   for (const adj of local) {
@@ -114,7 +214,8 @@ export function mergeAdjustments(local: Adjustment[], remote: Adjustment[]): Adj
   }
 
   for (const adj of remote) {
-    if (!byId.has(adj.id)) {
+    const existing = byId.get(adj.id);
+    if (!existing || (adj.modified?.modifiedAt ?? "") > (existing.modified?.modifiedAt ?? "")) {
       byId.set(adj.id, adj);
     }
   }
@@ -125,6 +226,72 @@ export function mergeAdjustments(local: Adjustment[], remote: Adjustment[]): Adj
   );
 }
 
+export function mergeTombstones(local: Tombstone[], remote: Tombstone[]): Tombstone[] {
+  // One record per deleted item; the later deletion wins
+  const byKey = new Map<string, Tombstone>();
+  for (const tombstone of [...local, ...remote]) {
+    const key = `${tombstone.kind}:${tombstone.key}`;
+    const existing = byKey.get(key);
+    if (!existing || tombstone.deletedAt > existing.deletedAt) byKey.set(key, tombstone);
+  }
+  return pruneTombstones(Array.from(byKey.values()));
+}
+
+// Drop days or plans deleted on either device, unless this copy was changed since
+function applyEntryTombstones(
+  entries: Record<string, DayEntry>,
+  tombstones: Tombstone[],
+  kind: "entry" | "plan" = "entry"
+): Record<string, DayEntry> {
+  const result = { ...entries };
+  for (const tombstone of tombstones) {
+    const entry = result[tombstone.key];
+    if (tombstone.kind !== kind || !entry) continue;
+    if (!tombstone.entry || entriesAreEqual(entry, tombstone.entry)) delete result[tombstone.key];
+  }
+  return result;
+}
+
+export function mergePlannedEntries(
+  local: Record<string, DayEntry>,
+  remote: Record<string, DayEntry>
+): Record<string, DayEntry> {
+  // Plans are kept from both devices; where both planned a day differently the newer edit wins,
+  // falling back to local as there's no screen to choose between plans
+  const merged = { ...remote, ...local };
+  for (const [date, plan] of Object.entries(remote)) {
+    const mine = local[date];
+    if (
+      mine &&
+      !entriesAreEqual(mine, plan) &&
+      (plan.modified?.modifiedAt ?? "") > (mine.modified?.modifiedAt ?? "")
+    ) {
+      merged[date] = plan;
+    }
+  }
+  return merged;
+}
+
+export function mergeSettingsHistory(
+  local: SettingsChange[],
+  remote: SettingsChange[]
+): SettingsChange[] {
+  // Union by ID, same as adjustments
+  const byId = new Map<string, SettingsChange>();
+
+  for (const change of local) {
+    byId.set(change.id, change);
+  }
+
+  for (const change of remote) {
+    if (!byId.has(change.id)) {
+      byId.set(change.id, change);
+    }
+  }
+
+  return Array.from(byId.values()).sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom));
+}
+
 function arraysEqual(a: number[], b: number[]): boolean {
   if (a.length !== b.length) return false;
   const sortedA = [...a].sort();
@@ -132,58 +299,276 @@ function arraysEqual(a: number[], b: number[]): boolean {
   return sortedA.every((v, i) => v === sortedB[i]);
 }
 
-export function settingsAreEqual(local: Settings, remote: Settings): boolean {
-  return (
-    arraysEqual(local.workingDays, remote.workingDays) &&
-    local.expectedMinutesPerDay === remote.expectedMinutesPerDay &&
-    local.weekStartsOn === remote.weekStartsOn &&
-    local.nonWorkingDayDisplay === remote.nonWorkingDayDisplay &&
-    local.nonWorkingDayRate === remote.nonWorkingDayRate
-  );
+// Every settings field this version knows; the type check fails when one is missing here
+const KNOWN_SETTINGS_FIELDS: Record<keyof Settings, true> = {
+  workingDays: true,
+  expectedMinutesPerDay: true,
+  expectedMinutesByWeekday: true,
+  roster: true,
+  weekStartsOn: true,
+  nonWorkingDayDisplay: true,
+  nonWorkingDayRate: true,
+  customDayTypes: true,
+  settlement: true,
+  rules: true,
+  autoBreakRules: true,
+  rounding: true,
+};
+
+function settingsFieldsAreEqual(a: Settings, b: Settings, field: keyof Settings): boolean {
+  if (field === "workingDays") return arraysEqual(a.workingDays, b.workingDays);
+  // A missing list and an empty one mean the same
+  const normalize = (value: unknown) =>
+    value === undefined || (Array.isArray(value) && value.length === 0) ? null : value;
+  return JSON.stringify(normalize(a[field])) === JSON.stringify(normalize(b[field]));
 }
 
-export function detectSettingsConflict(local: Settings, remote: Settings): SettingsConflict | null {
-  if (settingsAreEqual(local, remote)) {
+// Known settings fields whose values differ between the two sides
+function getDifferingSettingsFields(local: Settings, remote: Settings): (keyof Settings)[] {
+  const fields = Object.keys(KNOWN_SETTINGS_FIELDS) as (keyof Settings)[];
+  return fields.filter((field) => !settingsFieldsAreEqual(local, remote, field));
+}
+
+/**
+ * Settings combined field by field. A field only one side changed since the last sync takes
+ * that side's value; without a snapshot of that sync the newer stamp wins. The fields that
+ * can't be settled either way keep the local value and are returned for the user to choose.
+ */
+function mergeSettings(
+  local: Settings,
+  remote: Settings,
+  localStamps: SettingsStamps,
+  remoteStamps: SettingsStamps,
+  options: MergeOptions
+): { settings: Settings; conflictFields: (keyof Settings)[] } {
+  const base = options.alwaysAsk ? undefined : options.base?.settings;
+  // Keys from another app version pass through untouched, the local value where both have one
+  const settings = { ...remote, ...local };
+  const conflictFields: (keyof Settings)[] = [];
+
+  for (const field of getDifferingSettingsFields(local, remote)) {
+    let newer: "local" | "remote" | null = null;
+    if (!base) {
+      newer = pickNewer(localStamps[field], remoteStamps[field], options);
+    } else if (settingsFieldsAreEqual(remote, base, field)) {
+      newer = "local";
+    } else if (
+      settingsFieldsAreEqual(local, base, field) &&
+      changedSinceSync(remoteStamps[field], options)
+    ) {
+      newer = "remote";
+    }
+    if (newer === null) conflictFields.push(field);
+    if (newer === "remote") Object.assign(settings, { [field]: remote[field] });
+  }
+
+  return { settings, conflictFields };
+}
+
+export function detectSettingsConflict(
+  local: Settings,
+  remote: Settings,
+  fields: (keyof Settings)[]
+): SettingsConflict | null {
+  if (fields.length === 0) {
     return null;
   }
-  return { local, remote };
+  return { local, remote, fields };
+}
+
+export function applySettingsResolutions(
+  merged: Settings,
+  resolutions: Map<keyof Settings, "local" | "remote">,
+  conflict: SettingsConflict
+): Settings {
+  const result = { ...merged };
+
+  for (const field of conflict.fields) {
+    const choice = resolutions.get(field);
+    if (choice) Object.assign(result, { [field]: conflict[choice][field] });
+  }
+
+  return result;
 }
 
-export function mergeLeaveBalance(
-  local: LeaveBalance | undefined,
-  remote: LeaveBalance | undefined
-): LeaveBalance | undefined {
-  // If both have leave balance configured, prefer local (most recent configuration)
-  // If only one has it, use that one
-  if (local && remote) {
-    return local;
+// The newer stamp for each settings field, whichever device it came from
+export function mergeSettingsStamps(local: SettingsStamps, remote: SettingsStamps): SettingsStamps {
+  const merged: SettingsStamps = { ...local };
+  for (const [field, stamp] of Object.entries(remote) as [keyof Settings, RecordStamp][]) {
+    const existing = merged[field];
+    if (!existing || stamp.modifiedAt > existing.modifiedAt) merged[field] = stamp;
   }
-  return local || remote;
+  return merged;
+}
+
+function allowancesAreEqual(a: LeaveAllowance | undefined, b: LeaveAllowance | undefined): boolean {
+  if (!a || !b) return !a && !b;
+  return (
+    JSON.stringify({ ...a, modified: undefined }) === JSON.stringify({ ...b, modified: undefined })
+  );
+}
+
+/**
+ * The same decision as mergeEntry, for one leave allowance. When the user has to choose,
+ * the conflict is returned and the local allowance is kept until they do.
+ */
+function mergeAllowance(
+  id: string,
+  local: LeaveAllowance | undefined,
+  remote: LeaveAllowance | undefined,
+  options: MergeOptions
+): { allowance?: LeaveAllowance; conflict?: AllowanceConflict } {
+  const base = options.alwaysAsk ? undefined : options.base?.leaveAllowances;
+  const baseAllowance = base?.find((a) => a.id === id);
+
+  if (!local || !remote) {
+    // Removed here and left alone there means it was deleted; the other device may never have
+    // had one only this device has
+    if (!local && baseAllowance && allowancesAreEqual(remote, baseAllowance)) return {};
+    return { allowance: local ?? remote };
+  }
+
+  const conflict = { allowance: local, conflict: { local, remote } };
+  if (allowancesAreEqual(local, remote)) return { allowance: local };
+
+  if (base) {
+    if (allowancesAreEqual(remote, baseAllowance)) return { allowance: local };
+    if (allowancesAreEqual(local, baseAllowance) && changedSinceSync(remote.modified, options)) {
+      return { allowance: remote };
+    }
+    return conflict;
+  }
+
+  const newer = pickNewer(local.modified, remote.modified, options);
+  if (newer === null) return conflict;
+  return { allowance: newer === "remote" ? remote : local };
+}
+
+export function detectAllowanceConflicts(
+  local: LeaveAllowance[],
+  remote: LeaveAllowance[],
+  options: MergeOptions = {}
+): AllowanceConflict[] {
+  const remoteById = new Map(remote.map((a) => [a.id, a]));
+  return local.flatMap((allowance) => {
+    const { conflict } = mergeAllowance(
+      allowance.id,
+      allowance,
+      remoteById.get(allowance.id),
+      options
+    );
+    return conflict ? [conflict] : [];
+  });
+}
+
+export function mergeLeaveAllowances(
+  local: LeaveAllowance[],
+  remote: LeaveAllowance[],
+  options: MergeOptions = {}
+): LeaveAllowance[] {
+  // Allowances merge like days; a conflicting one keeps the local version until resolved
+  const localById = new Map(local.map((a) => [a.id, a]));
+  const remoteById = new Map(remote.map((a) => [a.id, a]));
+  const ids = new Set([...localById.keys(), ...remoteById.keys()]);
+  return [...ids].flatMap((id) => {
+    const { allowance } = mergeAllowance(id, localById.get(id), remoteById.get(id), options);
+    return allowance ? [allowance] : [];
+  });
+}
+
+export function applyAllowanceResolutions(
+  merged: LeaveAllowance[],
+  resolutions: Map<string, "local" | "remote">,
+  conflicts: AllowanceConflict[]
+): LeaveAllowance[] {
+  return merged.map((allowance) => {
+    const conflict = conflicts.find((c) => c.local.id === allowance.id);
+    const choice = resolutions.get(allowance.id);
+    return conflict && choice ? conflict[choice] : allowance;
+  });
 }
 
 export function prepareSyncResult(
   localPayload: SyncPayload,
-  remotePayload: SyncPayload
+  remotePayload: SyncPayload,
+  options: MergeOptions = {}
 ): SyncResult {
-  const entryConflicts = detectConflicts(localPayload.entries, remotePayload.entries);
-  const mergedEntries = mergeNonConflicting(
-    localPayload.entries,
-    remotePayload.entries,
-    entryConflicts
+  const tombstones = mergeTombstones(localPayload.tombstones || [], remotePayload.tombstones || []);
+  const deletedIds = (kind: Tombstone["kind"]) =>
+    new Set(tombstones.filter((t) => t.kind === kind).map((t) => t.key));
+  const deletedAdjustments = deletedIds("adjustment");
+  const deletedSettingsChanges = deletedIds("settings-change");
+  const deletedAllowances = deletedIds("allowance");
+  const deletedHolidays = deletedIds("holiday");
+
+  // Older devices may still send single start/end pairs
+  const localEntries = applyEntryTombstones(localPayload.entries, tombstones);
+  const remoteEntries = applyEntryTombstones(normalizeEntries(remotePayload.entries), tombstones);
+  const entryConflicts = detectConflicts(localEntries, remoteEntries, options);
+  const mergedEntries = mergeNonConflicting(localEntries, remoteEntries, entryConflicts, options);
+  const mergedAdjustments = mergeAdjustments(
+    localPayload.adjustments.filter((a) => !deletedAdjustments.has(a.id)),
+    remotePayload.adjustments.filter((a) => !deletedAdjustments.has(a.id))
+  );
+  // Plans removed on either device stay removed; the newer edit wins where both planned a day
+  const mergedPlannedEntries = mergePlannedEntries(
+    applyEntryTombstones(localPayload.plannedEntries || {}, tombstones, "plan"),
+    applyEntryTombstones(remotePayload.plannedEntries || {}, tombstones, "plan")
+  );
+  // A day or plan that still exists after the merge was filled in again; its deletion is done with
+  const mergedTombstones = tombstones.filter((t) =>
+    t.kind === "entry"
+      ? entryIsEmpty(mergedEntries[t.key]) && !entryConflicts.some((c) => c.date === t.key)
+      : t.kind !== "plan" || !(t.key in mergedPlannedEntries)
+  );
+  const mergedSettingsHistory = mergeSettingsHistory(
+    (localPayload.settingsHistory || []).filter((c) => !deletedSettingsChanges.has(c.id)),
+    (remotePayload.settingsHistory || []).filter((c) => !deletedSettingsChanges.has(c.id))
+  );
+  // Holidays are keyed by date; local names win where both devices have one
+  const mergedPublicHolidays = mergePublicHolidays(
+    (remotePayload.publicHolidays || []).filter((h) => !deletedHolidays.has(h.date)),
+    (localPayload.publicHolidays || []).filter((h) => !deletedHolidays.has(h.date))
+  );
+  const localStamps = localPayload.settingsModified || {};
+  const remoteStamps = remotePayload.settingsModified || {};
+  const mergedSettings = mergeSettings(
+    localPayload.settings,
+    remotePayload.settings,
+    localStamps,
+    remoteStamps,
+    options
+  );
+  const settingsConflict = detectSettingsConflict(
+    localPayload.settings,
+    remotePayload.settings,
+    mergedSettings.conflictFields
   );
-  const mergedAdjustments = mergeAdjustments(localPayload.adjustments, remotePayload.adjustments);
-  const settingsConflict = detectSettingsConflict(localPayload.settings, remotePayload.settings);
-  const mergedLeaveBalance = mergeLeaveBalance(
-    localPayload.leaveBalance,
-    remotePayload.leaveBalance
+  // Older devices send a single annual leave balance
+  const remoteAllowances = (
+    remotePayload.leaveAllowances ??
+    migrateLeaveBalance(remotePayload.leaveBalance, remotePayload.settings.customDayTypes)
+  ).filter((a) => !deletedAllowances.has(a.id));
+  const localAllowances = (localPayload.leaveAllowances || []).filter(
+    (a) => !deletedAllowances.has(a.id)
   );
+  const allowanceConflicts = detectAllowanceConflicts(localAllowances, remoteAllowances, options);
+  const mergedLeaveAllowances = mergeLeaveAllowances(localAllowances, remoteAllowances, options);
 
   return {
     mergedEntries,
     mergedAdjustments,
-    mergedSettings: localPayload.settings, // Default to local, will be overridden if conflict resolved
-    mergedLeaveBalance,
+    // Conflicting fields hold the local value until the user chooses
+    mergedSettings: mergedSettings.settings,
+    mergedLeaveAllowances,
+    mergedSettingsHistory,
+    mergedPublicHolidays,
+    mergedPlannedEntries,
+    mergedTombstones,
+    mergedSettingsModified: mergeSettingsStamps(localStamps, remoteStamps),
+    peerDeviceId: remotePayload.deviceId,
     entryConflicts,
     settingsConflict,
+    allowanceConflicts,
   };
 }
@@ -0,0 +1,111 @@
+import type { AppState } from "@/types/flexi-tracker";
+
+function isSame(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+/**
+ * Three-way merge of keyed records. A key this side hasn't touched since `base` takes the
+ * other side's value, including its removal; a key this side did change keeps its value.
+ */
+export function mergeRecords<T>(
+  base: Record<string, T>,
+  local: Record<string, T>,
+  remote: Record<string, T>
+): Record<string, T> {
+  const merged: Record<string, T> = {};
+  const allKeys = new Set([...Object.keys(base), ...Object.keys(local), ...Object.keys(remote)]);
+
+  for (const key of allKeys) {
+    const value = isSame(local[key], base[key]) ? remote[key] : local[key];
+    if (value !== undefined) merged[key] = value;
+  }
+
+  return merged;
+}
+
+// The same merge, field by field, for a single object such as the settings
+export function mergeFields<T extends object>(base: T, local: T, remote: T): T {
+  return mergeRecords(
+    base as Record<string, unknown>,
+    local as Record<string, unknown>,
+    remote as Record<string, unknown>
+  ) as T;
+}
+
+// The same merge for lists of records identified by a key, keeping local order first
+function mergeLists<T>(
+  base: T[] | undefined,
+  local: T[] | undefined,
+  remote: T[] | undefined,
+  keyOf: (item: T) => string
+): T[] {
+  const byKey = (items: T[] | undefined) =>
+    Object.fromEntries((items || []).map((item) => [keyOf(item), item]));
+  const merged = mergeRecords(byKey(base), byKey(local), byKey(remote));
+  const order = [...(local || []), ...(remote || [])].map(keyOf);
+  return [...new Set(order)].filter((key) => key in merged).map((key) => merged[key]);
+}
+
+/**
+ * Bring in a state saved by another tab. `base` is the last state this tab knew to be saved,
+ * so anything changed here since then is kept and everything else follows the other tab.
+ * Settings merge field by field, so two tabs changing different settings keep both.
+ */
+export function mergeTabStates(base: AppState, local: AppState, remote: AppState): AppState {
+  return {
+    ...local,
+    settings: mergeFields(base.settings, local.settings, remote.settings),
+    entries: mergeRecords(base.entries, local.entries, remote.entries),
+    adjustments: mergeLists(
+      base.adjustments,
+      local.adjustments,
+      remote.adjustments,
+      (a) => a.id
+    ).sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()),
+    leaveAllowances: mergeLists(
+      base.leaveAllowances,
+      local.leaveAllowances,
+      remote.leaveAllowances,
+      (a) => a.id
+    ),
+    settingsHistory: mergeLists(
+      base.settingsHistory,
+      local.settingsHistory,
+      remote.settingsHistory,
+      (c) => c.id
+    ).sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom)),
+    publicHolidays: mergeLists(
+      base.publicHolidays,
+      local.publicHolidays,
+      remote.publicHolidays,
+      (h) => h.date
+    ).sort((a, b) => a.date.localeCompare(b.date)),
+    plannedEntries: mergeRecords(
+      base.plannedEntries || {},
+      local.plannedEntries || {},
+      remote.plannedEntries || {}
+    ),
+    tombstones: mergeLists(
+      base.tombstones,
+      local.tombstones,
+      remote.tombstones,
+      (t) => `${t.kind}:${t.key}`
+    ),
+    settingsModified: mergeFields(
+      base.settingsModified || {},
+      local.settingsModified || {},
+      remote.settingsModified || {}
+    ),
+    syncedWith: mergeRecords(
+      base.syncedWith || {},
+      local.syncedWith || {},
+      remote.syncedWith || {}
+    ),
+    syncSnapshots: mergeRecords(
+      base.syncSnapshots || {},
+      local.syncSnapshots || {},
+      remote.syncSnapshots || {}
+    ),
+  };
+}
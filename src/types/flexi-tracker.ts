@@ -1,11 +1,18 @@
-export type DayType =
+export type BuiltInDayType =
   | "normal"
   | "sick"
   | "sick-half"
   | "holiday"
   | "holiday-half"
   | "flexi"
-  | "flexi-half";
+  | "flexi-half"
+  | "toil"
+  | "toil-half";
+
+// User-defined day types are stored on entries by their id
+export type CustomDayTypeId = `custom:${string}`;
+
+export type DayType = BuiltInDayType | CustomDayTypeId;
 
 export type NonWorkingDayDisplay = "show" | "disable" | "hide";
 
@@ -15,19 +22,179 @@ export interface DayTypeInfo {
   color: string;
 }
 
+// How a day type counts towards the expected hours for the day:
+// full - the whole day is credited and times are ignored
+// half - half the day is credited on top of any time worked
+// none - only the time actually worked counts
+// minutes - a fixed number of minutes is credited on top of any time worked
+export type DayTypeCredit = "full" | "half" | "none" | "minutes";
+
+export interface CustomDayType {
+  id: CustomDayTypeId;
+  label: string;
+  icon: string;
+  color: string; // key of DAY_TYPE_COLORS
+  shortcut?: string | null; // single letter mnemonic in the preset menu
+  credit: DayTypeCredit;
+  creditMinutes?: number;
+  // Legacy link to the single annual leave balance, migrated into LeaveAllowance.dayTypes
+  allowance?: "annual-leave" | null;
+}
+
+export interface RosterWeek {
+  workingDays: number[];
+  expectedMinutesPerDay: number;
+  expectedMinutesByWeekday?: number[] | null;
+}
+
+export interface Roster {
+  anchorDate: string; // YYYY-MM-DD, first day of week 1
+  weeks: RosterWeek[];
+}
+
+export interface PublicHoliday {
+  date: string; // YYYY-MM-DD
+  name: string;
+}
+
+export interface DaySchedule {
+  isWorkingDay: boolean;
+  expectedMinutes: number;
+  publicHoliday?: PublicHoliday;
+}
+
+export interface SettlementSettings {
+  anchorDate: string; // YYYY-MM-DD, first day of a settlement period
+  periodLength: number;
+  periodUnit: "weeks" | "months";
+  // Limits on the balance carried into the next period, in minutes; null means no limit
+  maxCarryOver: number | null;
+  maxDeficit: number | null; // positive number of minutes
+  // What happens to a deficit beyond the limit: written off, or carried over and flagged
+  deficitAction: "forfeit" | "flag";
+}
+
+export interface SettlementPeriod {
+  start: string; // YYYY-MM-DD
+  end: string; // YYYY-MM-DD, inclusive
+  opening: number;
+  movement: number;
+  forfeited: number; // minutes removed at settlement; negative when a deficit is written off
+  closing: number;
+  flagged: boolean; // closed with a deficit beyond the limit
+  isOpen: boolean; // not yet settled
+}
+
+// Daily working-time rules from the flexi policy; each rule is off when null
+export interface ComplianceRules {
+  // On working days the first session must start by `start` and the last end no earlier than `end`
+  coreHours: { start: string; end: string } | null;
+  // A break of at least `breakMinutes` once more than `afterMinutes` have been worked
+  minBreak: { afterMinutes: number; breakMinutes: number } | null;
+  maxDailyMinutes: number | null;
+  // Time worked beyond the daily maximum is not credited
+  capAtMax: boolean;
+}
+
+export type ComplianceRuleId = "core-hours" | "min-break" | "max-daily";
+
+export interface RuleViolation {
+  rule: ComplianceRuleId;
+  message: string;
+}
+
+// When more than `afterMinutes` have been worked with less than `breakMinutes` of break
+// recorded, the shortfall is deducted as an automatic break
+export interface AutoBreakRule {
+  afterMinutes: number;
+  breakMinutes: number;
+}
+
+export type RoundingMode = "nearest" | "up" | "down";
+
+export interface RoundingRule {
+  mode: RoundingMode;
+  unit: number; // minutes: 5, 6, 10 or 15
+  // Starts this many minutes after a boundary round back to it, and ends this many
+  // minutes before one round forward, whatever the mode
+  graceMinutes: number;
+}
+
+// Payroll-style rounding of clock times; start and end times round separately
+export interface TimeRounding {
+  start: RoundingRule | null;
+  end: RoundingRule | null;
+  // Also round typed-in times when working out durations, not just clocking in and out
+  applyToManual: boolean;
+}
+
 export interface Settings {
   workingDays: number[];
   expectedMinutesPerDay: number;
+  // Per-weekday targets indexed Sun..Sat; when unset every working day expects the same
+  expectedMinutesByWeekday?: number[] | null;
+  // Repeating multi-week pattern; overrides workingDays and expected hours when set
+  roster?: Roster | null;
   weekStartsOn: number;
   nonWorkingDayDisplay: NonWorkingDayDisplay;
   nonWorkingDayRate: number;
+  customDayTypes?: CustomDayType[];
+  // Flexi settlement periods; when unset the balance is one running total
+  settlement?: SettlementSettings | null;
+  rules?: ComplianceRules | null;
+  autoBreakRules?: AutoBreakRule[];
+  rounding?: TimeRounding | null;
+}
+
+export interface WorkSession {
+  start?: string | null;
+  end?: string | null;
+}
+
+// Settings that describe the working contract and can change from a given date
+export type ContractSettings = Pick<
+  Settings,
+  | "workingDays"
+  | "expectedMinutesPerDay"
+  | "expectedMinutesByWeekday"
+  | "roster"
+  | "nonWorkingDayRate"
+>;
+
+export interface SettingsChange {
+  id: string;
+  effectiveFrom: string; // YYYY-MM-DD
+  settings: Partial<ContractSettings>;
+}
+
+// When a record was last changed, and on which device, so sync can keep the newer edit
+export interface RecordStamp {
+  modifiedAt: string; // ISO timestamp
+  deviceId: string;
+}
+
+// A break taken while clocked in, recorded by pausing and resuming
+export interface BreakInterval {
+  start: string; // HH:MM
+  end: string | null; // null while paused
 }
 
 export interface DayEntry {
-  startTime?: string | null;
-  endTime?: string | null;
+  sessions?: WorkSession[];
   breakMinutes?: number;
+  // Breaks recorded with pause and resume; each adds its length to breakMinutes when it ends
+  breaks?: BreakInterval[];
+  // Skip the automatic break on this day, e.g. when a break was taken but not typed in
+  noAutoBreak?: boolean;
   dayType?: DayType;
+  // Overtime on this day banked as time in lieu instead of flexi
+  toilMinutes?: number;
+  // Leave taken on this day, for hours-based allowances, when it differs from the hours expected
+  leaveMinutes?: number;
+  modified?: RecordStamp;
+  // Legacy single start/end pair, migrated into `sessions` by normalizeEntry
+  startTime?: string | null;
+  endTime?: string | null;
 }
 
 export interface Adjustment {
@@ -35,19 +202,99 @@ export interface Adjustment {
   date: string;
   minutes: number;
   note: string;
+  toil?: boolean; // applies to the TOIL bank rather than the flexi balance
+  modified?: RecordStamp;
 }
 
 export interface LeaveBalance {
   totalDays: number;
   periodStart: string; // YYYY-MM-DD
   periodEnd: string; // YYYY-MM-DD
+  modified?: RecordStamp;
+}
+
+export interface LeaveAllowance extends LeaveBalance {
+  id: string;
+  name: string;
+  // Day types that use up this allowance; half-day variants of built-in types use half a day
+  dayTypes: DayType[];
+  // Hours-based allowances use `totalMinutes` and count leave in minutes rather than days
+  unit?: "days" | "hours";
+  totalMinutes?: number;
+  // Start a new period automatically each year, from the period above onwards
+  renewsYearly?: boolean;
+  // Whether the entitlement is available up front or builds up month by month
+  accrual?: "upfront" | "monthly";
+  // Joining partway through a period pro-rates that period's entitlement
+  employmentStart?: string | null; // YYYY-MM-DD
+  // Unused leave rolled into the next period, in days or minutes; unset means nothing carries over
+  maxCarryOver?: number | null;
+}
+
+// An allowance's position in the period containing a given date, in days or minutes
+export interface LeavePeriodStats {
+  periodStart: string; // YYYY-MM-DD
+  periodEnd: string; // YYYY-MM-DD
+  carriedOver: number;
+  entitlement: number; // full entitlement for the period, including carry-over
+  accrued: number; // built up so far, including carry-over
+  used: number;
+  remaining: number; // accrued less used
+}
+
+// Where balances stand on a date once the planned days up to it have been taken
+export interface Projection {
+  date: string; // YYYY-MM-DD
+  flexiBalance: number;
+  leave: (LeavePeriodStats & { id: string; name: string; unit: LeaveAllowance["unit"] })[];
+}
+
+// The first planned day that takes an allowance below zero
+export interface PlanOverdraft {
+  allowanceId: string;
+  name: string;
+  unit: LeaveAllowance["unit"];
+  date: string; // YYYY-MM-DD
+  remaining: number;
+}
+
+// A record removed on this device, kept for a while so a sync removes it on others too
+export interface Tombstone {
+  kind: "entry" | "adjustment" | "plan" | "settings-change" | "allowance" | "holiday";
+  // The date of a day entry, plan or holiday, or the id of any other record
+  key: string;
+  deletedAt: string; // ISO timestamp
+  // The day or plan as it was when removed; another device's copy is only removed if it matches
+  entry?: DayEntry;
+}
+
+export type SettingsStamps = Partial<Record<keyof Settings, RecordStamp>>;
+
+// The data as it stood when two devices last synced, to tell which side changed what since
+export interface SyncSnapshot {
+  entries: Record<string, DayEntry>;
+  settings?: Settings;
+  leaveAllowances?: LeaveAllowance[];
 }
 
 export interface AppState {
   settings: Settings;
   entries: Record<string, DayEntry>;
   adjustments: Adjustment[];
+  leaveAllowances?: LeaveAllowance[];
+  // Legacy single annual leave balance, migrated into `leaveAllowances` by normalizeState
   leaveBalance?: LeaveBalance;
+  settingsHistory?: SettingsChange[];
+  publicHolidays?: PublicHoliday[];
+  // Future days booked in the leave planner; kept apart so they don't count until they happen
+  plannedEntries?: Record<string, DayEntry>;
+  tombstones?: Tombstone[];
+  // When each settings field was last changed
+  settingsModified?: SettingsStamps;
+  // When this device last finished a sync with each other device, by device id
+  syncedWith?: Record<string, string>;
+  // What this device settled on at the end of that sync, by device id
+  syncSnapshots?: Record<string, SyncSnapshot>;
 }
 
 export interface MenuItem {
@@ -64,7 +311,14 @@ export interface SyncPayload {
   entries: Record<string, DayEntry>;
   adjustments: Adjustment[];
   settings: Settings;
-  leaveBalance?: LeaveBalance;
+  leaveAllowances?: LeaveAllowance[];
+  leaveBalance?: LeaveBalance; // sent by older versions
+  settingsHistory?: SettingsChange[];
+  publicHolidays?: PublicHoliday[];
+  plannedEntries?: Record<string, DayEntry>;
+  tombstones?: Tombstone[];
+  settingsModified?: SettingsStamps;
+  deviceId?: string;
   timestamp: number;
 }
 
@@ -77,15 +331,30 @@ export interface ConflictEntry {
 export interface SettingsConflict {
   local: Settings;
   remote: Settings;
+  // The fields to choose between; every other field is already merged
+  fields: (keyof Settings)[];
+}
+
+export interface AllowanceConflict {
+  local: LeaveAllowance;
+  remote: LeaveAllowance;
 }
 
 export interface SyncResult {
   mergedEntries: Record<string, DayEntry>;
   mergedAdjustments: Adjustment[];
   mergedSettings: Settings;
-  mergedLeaveBalance?: LeaveBalance;
+  mergedLeaveAllowances: LeaveAllowance[];
+  mergedSettingsHistory: SettingsChange[];
+  mergedPublicHolidays: PublicHoliday[];
+  mergedPlannedEntries: Record<string, DayEntry>;
+  mergedTombstones: Tombstone[];
+  mergedSettingsModified: SettingsStamps;
+  // The other device, so the time of this sync can be remembered for the next one
+  peerDeviceId?: string;
   entryConflicts: ConflictEntry[];
   settingsConflict: SettingsConflict | null;
+  allowanceConflicts: AllowanceConflict[];
 }
 
 declare global {